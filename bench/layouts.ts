@@ -0,0 +1,77 @@
+/**
+ * @file layouts
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, LayoutKind} from '../src/index'
+
+/**
+ * Compares the 'nodes' and 'unrolled' layouts on a list of SIZE numbers, stored without cloning so the layouts
+ * are what is measured. Run with `npm run bench`, heap figures need node's --expose-gc flag, which that sets.
+ */
+const SIZE = Number(process.env.SIZE) || 200000
+const LOOKUPS = 2000
+const layouts: LayoutKind[] = ['nodes', 'unrolled']
+
+const collect = (): number => {
+  if (global.gc) {
+    global.gc()
+  }
+  return process.memoryUsage().heapUsed
+}
+
+const time = (run: () => void): number => {
+  let start = process.hrtime()
+  run()
+  let [seconds, nanos] = process.hrtime(start)
+  return seconds * 1e3 + nanos / 1e6
+}
+
+const fill = (layout: LayoutKind): DLinkedList<number> => {
+  let dll = new DLinkedList<number>({layout, cloner: 'none'})
+  for (let i = 0; i < SIZE; i++) {
+    dll.append(i)
+  }
+  return dll
+}
+
+const measure = (layout: LayoutKind) => {
+  let before = collect()
+  let dll: DLinkedList<number>
+  let results = {layout, 'append ms': time(() => dll = fill(layout)), 'heap MB': 0}
+  results['heap MB'] = Math.round((collect() - before) / 1e5) / 10
+
+  let sum = 0
+  results['each ms'] = time(() => dll.each(value => sum += value))
+  results['at ms'] = time(() => {
+    for (let i = 0; i < LOOKUPS; i++) {
+      sum += dll.at(i * 7919 % SIZE)
+    }
+  })
+  results['insertAt ms'] = time(() => {
+    for (let i = 0; i < LOOKUPS; i++) {
+      dll.insertAt(i * 7919 % dll.length, i)
+    }
+  })
+  results['removeAt ms'] = time(() => {
+    for (let i = 0; i < LOOKUPS; i++) {
+      dll.removeAt(i * 7919 % dll.length)
+    }
+  })
+  results['removeHead ms'] = time(() => {
+    while (dll.length > 0) {
+      dll.removeHead()
+    }
+  })
+  Object.keys(results).forEach(key => {
+    if (typeof results[key] === 'number') {
+      results[key] = Math.round(results[key] * 10) / 10
+    }
+  })
+  return results
+}
+
+console.log(`${SIZE} values, ${LOOKUPS} lookups, inserts and removes at spread out indexes.`)
+console.table(layouts.map(measure))
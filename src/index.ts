@@ -5,4 +5,22 @@
  * @license MIT {@link http://opensource.org/licenses/MIT}
  */
 
-export * from './modules/DLinkedList'
\ No newline at end of file
+export * from './modules/DLinkedList'
+export {DeepReadonly, DeepReadonlyArray, DeepReadonlyMap, DeepReadonlySet, DeepReadonlyObject} from './modules/DeepReadonly'
+export * from './modules/SortedDLinkedList'
+export * from './modules/PersistentDLinkedList'
+export * from './modules/KeyedDLinkedList'
+export * from './modules/LRUCache'
+export * from './modules/Concurrency'
+export * from './modules/Cloner'
+export * from './modules/Node'
+export {LayoutKind, InvariantError} from './modules/Layout'
+export {NodeView} from './modules/NodeView'
+export * from './modules/Cursor'
+export * from './modules/LazySeq'
+export {ChangeKind, ChangeRecord, ChangeHandler, ChangeSubscriber} from './modules/Events'
+export {HistoryOptions} from './modules/History'
+export {PATCH_VERSION, EqualsOptions, equalityComparator, PatchOperation, Patch, PatchError, deepEqual} from './modules/Diff'
+export * from './modules/Streams'
+export {Codec, JSONReviver, SerializeOptions, DeserializeOptions, dateCodec, mapCodec, setCodec} from './modules/Serialization'
+export {ReadOnlyViewError, readOnlyView, isReadOnlyView, toMutable, unwrap} from './modules/ReadOnlyView'
\ No newline at end of file
@@ -0,0 +1,111 @@
+/**
+ * @file Cloner
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import isPlainObject from 'lodash.isplainobject'
+import cloneDeep from 'lodash.clonedeep'
+import {serialize, deserialize} from 'v8'
+
+declare module 'v8' {
+  function serialize(value: any): Buffer
+  function deserialize(data: Buffer): any
+}
+
+/**
+ * Function signature of a cloning strategy. Receives a value on its way into or out of a {@link Node}
+ * and returns the copy that should be stored or handed out.
+ *
+ * ```
+ * let c: Cloner = (value) => value instanceof Moment ? value.clone() : value
+ * ```
+ */
+export type Cloner = (value: any) => any
+
+/**
+ * Cloning strategies accepted by {@link DLinkedList} and {@link Node}.
+ *
+ * - `'plain'` deeply clones plain objects and arrays, everything else is passed by reference. This is the default.
+ * - `'deep'` deeply clones every object with lodash.clonedeep, see {@link cloneDeeply}.
+ * - `'structured'` clones with the structured clone algorithm of structuredClone, see {@link cloneStructured}.
+ * - `'none'` stores and returns values by reference.
+ * - A custom {@link Cloner} function.
+ */
+export type ClonerOption = 'plain' | 'deep' | 'structured' | 'none' | Cloner
+
+/**
+ * Deeply clones plain objects and arrays
+ * @param obj
+ */
+export const clonePlain = (obj: any) => {
+  return (isPlainObject(obj) || Array.isArray(obj)) ? cloneDeep(obj) : obj
+}
+
+/**
+ * Deeply clones every object with lodash.clonedeep, including Maps, Sets, Dates, RegExps, typed arrays and
+ * class instances, which keep their prototype. Functions, WeakMaps and WeakSets cannot be copied: nested
+ * in another value they are shared by reference, and a WeakMap or WeakSet stored directly comes back as an
+ * empty object. Functions stored directly are passed by reference.
+ * @param obj
+ */
+export const cloneDeeply = (obj: any) => {
+  return (obj !== null && typeof obj === 'object') ? cloneDeep(obj) : obj
+}
+
+/**
+ * Clones objects with the structured clone algorithm, the one structuredClone and postMessage use,
+ * by passing them through v8.serialize and v8.deserialize. Maps, Sets, Dates, RegExps, typed arrays and
+ * cyclic references are copied, class instances come back as plain objects without their prototype,
+ * and objects holding functions or symbols throw. Values that are not objects are returned as is.
+ * @param obj
+ */
+export const cloneStructured = (obj: any) => {
+  return (obj !== null && typeof obj === 'object') ? deserialize(serialize(obj)) : obj
+}
+
+/**
+ * Returns value untouched.
+ * @param obj
+ */
+export const cloneNone = (obj: any) => obj
+
+/**
+ * Recursively freezes obj and every object reachable through its own properties.
+ * Typed arrays and DataViews cannot be frozen and are left as is,
+ * as are the internal contents of Maps, Sets and Dates.
+ * @param obj
+ */
+export const deepFreeze = <V>(obj: V): V => {
+  if (obj === null || typeof obj !== 'object' || Object.isFrozen(obj) || ArrayBuffer.isView(obj)) {
+    return obj
+  }
+  Object.freeze(obj)
+  Object.getOwnPropertyNames(obj).forEach((key) => {
+    deepFreeze(obj[key])
+  })
+  return obj
+}
+
+/**
+ * Resolves a {@link ClonerOption} to the function that implements it.
+ * @param option
+ */
+export const resolveCloner = (option: ClonerOption = 'plain'): Cloner => {
+  if (typeof option === 'function') {
+    return option
+  }
+  switch (option) {
+    case 'plain':
+      return clonePlain
+    case 'deep':
+      return cloneDeeply
+    case 'structured':
+      return cloneStructured
+    case 'none':
+      return cloneNone
+    default:
+      throw new TypeError(`Unknown cloner "${option}", expected 'plain', 'deep', 'structured', 'none' or a function.`)
+  }
+}
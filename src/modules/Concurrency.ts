@@ -0,0 +1,141 @@
+/**
+ * @file Concurrency
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+/**
+ * The parts of an AbortSignal the async methods rely on.
+ * Any standard AbortController signal satisfies this.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean
+
+  addEventListener(type: 'abort', listener: () => void): void
+
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * Options accepted by .asyncReduce, .asyncReduceRight
+ *
+ * ```
+ * const controller = new AbortController()
+ * dll.asyncReduce(iteratee, 0, {signal: controller.signal})
+ * ```
+ */
+export interface AbortOptions {
+  signal?: AbortSignalLike
+}
+
+/**
+ * Options accepted by .asyncMap, .asyncMapRight, .asyncFilter, .asyncEach, .asyncFind, .asyncSome, .asyncEvery
+ *
+ * ```
+ * dll.asyncMap(fetchJob, {concurrency: 4, signal: controller.signal})
+ * ```
+ */
+export interface AsyncOptions extends AbortOptions {
+  /**
+   * Maximum number of iteratees pending at once. Defaults to all of them.
+   */
+  concurrency?: number
+}
+
+/**
+ * Rejection reason used when an AbortSignal fires before an async method completes.
+ */
+export class AbortError extends Error {
+  readonly name: string = 'AbortError'
+
+  constructor(message: string = 'The operation was aborted.') {
+    super(message)
+  }
+}
+
+/**
+ * Throws an {@link AbortError} if signal has already fired.
+ * @param signal
+ */
+export const throwIfAborted = (signal?: AbortSignalLike): void => {
+  if (signal && signal.aborted) {
+    throw new AbortError()
+  }
+}
+
+/**
+ * Runs iteratee over items with at most options.concurrency calls pending at once,
+ * resolving with results in the same order as items.
+ *
+ * When halt returns truthy for a settled index, no item after that index is dispatched;
+ * results for those items are left empty.
+ *
+ * @param items
+ * @param iteratee
+ * @param options
+ * @param halt
+ */
+export const runConcurrent = <T, V>(items: T[],
+                                    iteratee: (item: T, index: number) => Promise<V> | V,
+                                    options: AsyncOptions = {},
+                                    halt?: (index: number, result: V) => boolean): Promise<V[]> => {
+  let {concurrency = Infinity, signal} = options
+
+  return new Promise<V[]>((resolve, reject) => {
+    if (!(concurrency >= 1)) {
+      return reject(new RangeError(`Concurrency must be a positive number, received ${concurrency}.`))
+    }
+
+    let results: V[] = new Array(items.length)
+    let next = 0
+    let active = 0
+    let limit = items.length
+    let finished = false
+
+    let onAbort = () => finish(new AbortError())
+
+    let finish = (err?: Error) => {
+      if (finished) {
+        return
+      }
+      finished = true
+      if (signal) {
+        signal.removeEventListener('abort', onAbort)
+      }
+      err ? reject(err) : resolve(results)
+    }
+
+    if (signal) {
+      if (signal.aborted) {
+        return finish(new AbortError())
+      }
+      signal.addEventListener('abort', onAbort)
+    }
+
+    let dispatch = () => {
+      if (finished) {
+        return
+      }
+      if (next >= limit && active === 0) {
+        return finish()
+      }
+      while (active < concurrency && next < limit) {
+        let index = next
+        next += 1
+        active += 1
+        new Promise<V>((r) => r(iteratee(items[index], index)))
+          .then((result) => {
+            active -= 1
+            results[index] = result
+            if (halt && halt(index, result)) {
+              limit = Math.min(limit, index + 1)
+            }
+            dispatch()
+          }, finish)
+      }
+    }
+
+    dispatch()
+  })
+}
@@ -0,0 +1,152 @@
+/**
+ * @file Cursor
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node} from './Node'
+import {NodeView, nodeOf} from './NodeView'
+import {DLinkedList} from './DLinkedList'
+
+/**
+ * A movable position in a {@link DLinkedList} that can read and edit the list around itself.
+ * Every edit goes through the list's own node methods, so head, tail and length stay consistent,
+ * and the cursor remains valid after any edit made through it.
+ *
+ * A cursor on an empty list points nowhere: value() returns null and both atStart and atEnd are true.
+ *
+ * ```
+ * const dll = DLinkedList.fromArray([1,2,4])
+ * const cursor = dll.cursor('head')
+ * cursor.next().insertAfter(3) // [1,2,3,4], cursor still on 2
+ * cursor.next().remove() // [1,2,4], cursor moves to 4
+ * ```
+ */
+export class Cursor<T> {
+  private readonly list: DLinkedList<T>
+  private current: Node<T> | null
+
+  /**
+   *
+   * @param list
+   * @param node - Starting position, a node of list. Null only when list is empty.
+   */
+  constructor(list: DLinkedList<T>, node: NodeView<T> | null) {
+    this.list = list
+    this.current = node ? nodeOf(node) : null
+  }
+
+  /**
+   * True when there is no value before the cursor.
+   */
+  get atStart(): boolean {
+    return this.current === null || this.current.getPrev() === null
+  }
+
+  /**
+   * True when there is no value after the cursor.
+   */
+  get atEnd(): boolean {
+    return this.current === null || this.current.getNext() === null
+  }
+
+  /**
+   * Moves to the next value. Stays in place at the end of the list.
+   */
+  next(): Cursor<T> {
+    if (!this.atEnd) {
+      this.current = this.current.getNext()
+    }
+    return this
+  }
+
+  /**
+   * Moves to the previous value. Stays in place at the start of the list.
+   */
+  prev(): Cursor<T> {
+    if (!this.atStart) {
+      this.current = this.current.getPrev()
+    }
+    return this
+  }
+
+  /**
+   * Returns the value under the cursor, following the list's cloning rules, or null for an empty list.
+   */
+  value(): T | null {
+    return this.current ? this.current.getData() : null
+  }
+
+  /**
+   * Returns a {@link NodeView} of the node under the cursor, or null for an empty list.
+   */
+  node(): NodeView<T> | null {
+    return NodeView.of(this.current)
+  }
+
+  /**
+   * Replaces the value under the cursor. On an empty list, appends it and moves onto it.
+   * @param data
+   */
+  replace(data: T): Cursor<T> {
+    if (this.current === null) {
+      return this.insertAfter(data)
+    }
+    let prev = this.current.getPrev()
+    this.list.replaceNode(this.current, data)
+    this.current = prev ? prev.getNext() : this.list.head_node
+    return this
+  }
+
+  /**
+   * Inserts data before the cursor, which stays where it is. On an empty list, moves onto the new value.
+   * @param data
+   */
+  insertBefore(data: T): Cursor<T> {
+    if (this.current === null) {
+      this.list.prepend(data)
+      this.current = this.list.head_node
+      return this
+    }
+    this.list.insertBeforeNode(this.current, data)
+    return this
+  }
+
+  /**
+   * Inserts data after the cursor, which stays where it is. On an empty list, moves onto the new value.
+   * @param data
+   */
+  insertAfter(data: T): Cursor<T> {
+    if (this.current === null) {
+      this.list.append(data)
+      this.current = this.list.tail_node
+      return this
+    }
+    this.list.insertAfterNode(this.current, data)
+    return this
+  }
+
+  /**
+   * Removes the value under the cursor and returns it. The cursor moves to the next value,
+   * or to the previous one when the removed value was last. Returns null for an empty list.
+   */
+  remove(): T | null {
+    if (this.current === null) {
+      return null
+    }
+    let removed = this.current
+    let value = removed.getData()
+    let neighbour = removed.getNext() || removed.getPrev()
+    this.list.removeNode(removed)
+    this.current = neighbour
+    return value
+  }
+
+  /**
+   * Returns a new cursor at the same position in the same list.
+   */
+  clone(): Cursor<T> {
+    return new Cursor<T>(this.list, this.node())
+  }
+}
@@ -5,45 +5,97 @@
  * @license MIT {@link http://opensource.org/licenses/MIT}
  */
 
-import {Node} from './Node'
+import {Node, NodeOwner, StorageMode, ForeignNodeError, DetachedNodeError} from './Node'
+import {Layout, LayoutKind, Place} from './Layout'
+import {NodeLayout} from './NodeLayout'
+import {UnrolledLayout} from './UnrolledLayout'
+import {NodeView, nodeOf} from './NodeView'
+import {Cursor} from './Cursor'
+import {
+  SerializeOptions,
+  DeserializeOptions,
+  JSONReviver,
+  encodeValue,
+  decodeValue,
+  readLines
+} from './Serialization'
+import {DLinkedListReadable, DLinkedListWritable, ReadableOptions, readInto} from './Streams'
+import {LazySeq} from './LazySeq'
+import {ChangeEmitter, ChangeKind, ChangeRecord, ChangeHandler, ChangeSubscriber} from './Events'
+import {History, HistoryOptions} from './History'
+import {EqualsOptions, Patch, PatchOperation, PatchError, diffValues, checkPatch, resolveEquality} from './Diff'
+import {Cloner, ClonerOption, resolveCloner} from './Cloner'
+import {AsyncOptions, AbortOptions, runConcurrent, throwIfAborted} from './Concurrency'
+import {DeepReadonly, asReadonly, asMutable} from './DeepReadonly'
 
 /**
  *  Function signature expected by .find, .findNode, .filter
+ *  Like Array.prototype callbacks, it receives the value, its index and the list being iterated.
  *
  *  ```
- *  let f: filterPredicate<number> = (value: number) => return true
+ *  let f: filterPredicate<number> = (value, index) => value > index
  *  ```
  *
  */
-export type filterPredicate<T> = (T) => boolean
+export type filterPredicate<T, L = DLinkedList<T>> = (value: DeepReadonly<T>, index: number, list: L) => boolean
+
+/**
+ *  Type guard accepted by .filter, .find, .findNode and .partition, narrows what they return to S.
+ *
+ *  ```
+ *  let f: filterGuard<Shape, Circle> = (shape): shape is Circle => shape.kind === 'circle'
+ *  ```
+ *
+ */
+export type filterGuard<T, S extends DeepReadonly<T>, L = DLinkedList<T>> =
+  (value: DeepReadonly<T>, index: number, list: L) => value is S
 
 /**
  * Function signature expected by .map, .mapRight
  *
  *  ```
- *  let f: mapIteratee<number, string> = (value: number) => `I have this value: ${value}`
+ *  let f: mapIteratee<number, string> = (value, index) => `I have ${value} at ${index}`
  *  ```
  */
-export type mapIteratee<T, V> = (T) => V
+export type mapIteratee<T, V, L = DLinkedList<T>> = (value: DeepReadonly<T>, index: number, list: L) => V
 
 /**
  * Function signature expected by .each, .eachRight
  *
  *  ```
- *  let f: eachIteratee<number> = (value: number) => `I have this value: ${value}`
+ *  let f: eachIteratee<number> = (value, index) => console.log(index, value)
  *  ```
  */
-export type eachIteratee<T> = (T) => void
+export type eachIteratee<T, L = DLinkedList<T>> = (value: DeepReadonly<T>, index: number, list: L) => void
 
 
 /**
  * Function signature expected by .asyncMap, .asyncMapRight
  *
  *  ```
- *  let f: asyncMapIteratee<number, number> = (value: number) => Promise.resolve(value * value)
+ *  let f: asyncMapIteratee<number, number> = (value) => Promise.resolve(value * value)
+ *  ```
+ */
+export type asyncMapIteratee<T, V, L = DLinkedList<T>> = (value: DeepReadonly<T>, index: number, list: L) => Promise<V> | V
+
+/**
+ * Function signature expected by .asyncFilter, .asyncFind, .asyncSome, .asyncEvery
+ *
+ *  ```
+ *  let f: asyncFilterPredicate<number> = (value) => Promise.resolve(value > 2)
+ *  ```
+ */
+export type asyncFilterPredicate<T, L = DLinkedList<T>> =
+  (value: DeepReadonly<T>, index: number, list: L) => Promise<boolean> | boolean
+
+/**
+ * Function signature expected by .asyncEach
+ *
+ *  ```
+ *  let f: asyncEachIteratee<number> = (value) => save(value)
  *  ```
  */
-export type asyncMapIteratee<T, V> = (T) => Promise<V> | V
+export type asyncEachIteratee<T, L = DLinkedList<T>> = (value: DeepReadonly<T>, index: number, list: L) => Promise<any> | void
 
 
 /**
@@ -56,11 +108,11 @@ export type asyncMapIteratee<T, V> = (T) => Promise<V> | V
  *  }
  *  ```
  */
-export type reduceIteratee<A, T> = (A, T) => A
+export type reduceIteratee<A, T, L = DLinkedList<T>> = (accumulator: A, value: DeepReadonly<T>, index: number, list: L) => A
 
 
 /**
- *  Function signature expected by .reduce, .reduceRight
+ *  Function signature expected by .asyncReduce, .asyncReduceRight
  *
  *  ```
  *  let f: asyncReduceIteratee<number, number> = (acc, value) => {
@@ -69,23 +121,459 @@ export type reduceIteratee<A, T> = (A, T) => A
  *  }
  *  ```
  */
-export type asyncReduceIteratee<A, T> = (A, T) => Promise<A>
+export type asyncReduceIteratee<A, T, L = DLinkedList<T>> =
+  (accumulator: A, value: DeepReadonly<T>, index: number, list: L) => Promise<A> | A
+
+/**
+ * Function signature expected by .sort, .sorted and {@link SortedDLinkedList}.
+ * Returns a negative number when a sorts before b, a positive number when it sorts after, and 0 when they are equal.
+ *
+ *  ```
+ *  let f: sortComparator<User> = (a, b) => a.age - b.age
+ *  ```
+ */
+export type sortComparator<T> = (a: T, b: T) => number
+
+/**
+ * Element type of a list after .flatten: the element type of T when T is iterable, T itself otherwise.
+ *
+ * ```
+ * let flat: Flattened<number[] | number> // number
+ * ```
+ */
+export type Flattened<T> = T extends Iterable<infer V> ? V : T
+
+/**
+ * Default comparator, orders values with the < and > operators.
+ *
+ *  ```
+ *  naturalOrder(1, 2) // -1
+ *  naturalOrder('b', 'a') // 1
+ *  ```
+ *
+ * @param a
+ * @param b
+ */
+export const naturalOrder = (a: any, b: any): number => {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * True for objects that can be iterated, such as arrays, lists and Sets. Strings are not objects and are left out.
+ * @param value
+ */
+const isIterableObject = (value: unknown): value is Iterable<unknown> => {
+  return value !== null && typeof value === 'object' && typeof (value as Iterable<unknown>)[Symbol.iterator] === 'function'
+}
+
+/**
+ * Change record reported when every value is removed at once.
+ */
+const clearRecord = <T>(): ChangeRecord<T> => {
+  return {kind: 'clear', index: 0, value: null, previous: null, prev: null, next: null}
+}
+
+/**
+ * What a list at capacity does when another value is added.
+ *
+ * - `'drop-oldest'` adds the value, then removes one from the other end: from the head for most inserts,
+ *   from the tail for prepend and unshift.
+ * - `'drop-newest'` leaves the list as it is and drops the new value.
+ * - `'throw'` throws a {@link CapacityError}.
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'throw'
+
+/**
+ * Thrown when a value is added to a list at capacity whose overflow policy is 'throw'.
+ */
+export class CapacityError extends RangeError {
+  readonly name: string = 'CapacityError'
+
+  constructor(capacity: number) {
+    super(`List is at its capacity of ${capacity}.`)
+  }
+}
+
+/**
+ * How iteration methods and iterators behave when the list changes while they walk it.
+ *
+ * - `'fail-fast'` throws a {@link ConcurrentModificationError} on the next step. This is the default.
+ * - `'snapshot'` walks the nodes as they were when the walk started, including any removed since.
+ */
+export type IterationMode = 'fail-fast' | 'snapshot'
+
+/**
+ * Thrown by an iteration method or iterator when the list it walks is changed before it finishes,
+ * for example by an iteratee that appends to or removes from the same list.
+ */
+export class ConcurrentModificationError extends Error {
+  readonly name: string = 'ConcurrentModificationError'
+
+  constructor(message: string = 'The list was modified during iteration.') {
+    super(message)
+  }
+}
+
+/**
+ * Options accepted by the DLinkedList constructor and the static constructors.
+ *
+ *  ```
+ *  const dll = new DLinkedList<Date>({cloner: 'deep'})
+ *  ```
+ */
+export interface DLinkedListOptions<T = any> {
+  /**
+   * How values are cloned on their way in and out of the list, see {@link ClonerOption}. Defaults to 'plain'.
+   */
+  cloner?: ClonerOption
+
+  /**
+   * Deep clone values once when they are inserted, deep freeze the copy, and hand out the frozen value on every read
+   * instead of cloning again. Writes to returned values throw in strict mode. Inserted objects are never frozen
+   * themselves, whatever the cloner. Defaults to false.
+   */
+  freeze?: boolean
+
+  /**
+   * Clone values once when they are inserted and hand out lazily created read-only Proxy views on every read.
+   * Mutating a view throws a {@link ReadOnlyViewError}, {@link toMutable} returns a writable deep copy.
+   * Cannot be combined with freeze. Defaults to false.
+   */
+  proxy?: boolean
+
+  /**
+   * Record every change so it can be undone and redone, see {@link DLinkedList.undo}.
+   * Pass an object to limit how many steps are kept. Defaults to false.
+   */
+  history?: boolean | HistoryOptions
+
+  /**
+   * Largest number of values the list may hold. Defaults to Infinity.
+   */
+  capacity?: number
+
+  /**
+   * What happens when a value is added to a list at capacity, see {@link OverflowPolicy}. Defaults to 'drop-oldest'.
+   */
+  overflow?: OverflowPolicy
+
+  /**
+   * Called with every value dropped because the list was at capacity.
+   */
+  onEvict?: (value: T) => void
+
+  /**
+   * How iteration methods and iterators react to changes made while they run, see {@link IterationMode}.
+   * Defaults to 'fail-fast'.
+   */
+  iteration?: IterationMode
+
+  /**
+   * How values are kept in memory, see {@link LayoutKind}. Defaults to {@link DLinkedList.defaultLayout}.
+   */
+  layout?: LayoutKind
+
+  /**
+   * Largest number of values per chunk of the 'unrolled' layout. Defaults to {@link DLinkedList.defaultChunkSize}.
+   */
+  chunkSize?: number
+}
+
+/**
+ * Shape produced by .toJSON and accepted by .fromJSON.
+ * Options are only written when they differ from the defaults. Custom cloner functions cannot be serialized
+ * and are left out, pass them to .fromJSON again.
+ *
+ *  ```
+ *  {"values": [1, 2, 3], "options": {"cloner": "deep"}}
+ *  ```
+ */
+export interface DLinkedListJSON {
+  values: any[]
+  options?: {
+    cloner?: Exclude<ClonerOption, Cloner>
+    freeze?: boolean
+    proxy?: boolean
+  }
+}
+
+/**
+ * Options accepted by .fromJSON and .fromNDJSON. List options override any stored in the JSON.
+ */
+export interface FromJSONOptions extends DeserializeOptions, DLinkedListOptions {
+}
 
 export class DLinkedList<T> {
 
+  /**
+   * When true, every list checks its whole structure with .validate after each change, throwing an
+   * {@link InvariantError} at the change that broke it rather than wherever the damage shows up later.
+   * Each check walks the entire list, so leave this off outside of tests and debugging.
+   *
+   * ```
+   * DLinkedList.debug = true
+   * ```
+   */
+  public static debug: boolean = false
+
+  /**
+   * Layout of lists created without a layout option, see {@link LayoutKind}.
+   *
+   * ```
+   * DLinkedList.defaultLayout = 'unrolled'
+   * ```
+   */
+  public static defaultLayout: LayoutKind = 'nodes'
+
+  /**
+   * Chunk size of 'unrolled' lists created without a chunkSize option.
+   */
+  public static defaultChunkSize: number = 64
+
   /**
    * Accepts an array and returns a DLinkedList instance.
    * @param arr
+   * @param options
    */
-  public static fromArray<S>(arr: S[]): DLinkedList<S> {
-    let dll = new DLinkedList<S>()
+  public static fromArray<S>(arr: S[], options?: DLinkedListOptions<S>): DLinkedList<S> {
+    let dll = new DLinkedList<S>(options)
     dll.fromArray(arr)
     return dll
   }
 
-  head_node: Node<T> = null
-  tail_node: Node<T> = null
-  length: number = 0
+  /**
+   * Accepts any iterable and returns a DLinkedList instance.
+   *
+   *  ```
+   *  const dll = DLinkedList.from(new Set([1,2,3])) // [1,2,3]
+   *  ```
+   *
+   * @param iterable
+   * @param options
+   */
+  public static from<S>(iterable: Iterable<S>, options?: DLinkedListOptions<S>): DLinkedList<S> {
+    let dll = new DLinkedList<S>(options)
+    for (let value of iterable) {
+      dll.append(value)
+    }
+    return dll
+  }
+
+  /**
+   * Accepts an async iterable, or an iterable of values and promises,
+   * and resolves with a DLinkedList instance. Values are awaited in order.
+   *
+   *  ```
+   *  async function* gen() { yield 1; yield 2; yield 3 }
+   *  const dll = await DLinkedList.fromAsync(gen()) // [1,2,3]
+   *  ```
+   *
+   * @param iterable
+   * @param options
+   */
+  public static async fromAsync<S>(iterable: AsyncIterable<S> | Iterable<S | Promise<S>>,
+                                   options?: DLinkedListOptions<S>): Promise<DLinkedList<S>> {
+    let dll = new DLinkedList<S>(options)
+    for await (let value of iterable) {
+      dll.append(value)
+    }
+    return dll
+  }
+
+  /**
+   * Creates a DLinkedList from a JSON string, the object .toJSON returns, or a plain array of values.
+   * The optional reviver works like the JSON.parse reviver and runs before codecs decode values.
+   *
+   *  ```
+   *  const json = JSON.stringify(dll)
+   *  const copy = DLinkedList.fromJSON(json)
+   *
+   *  const withDates = DLinkedList.fromJSON(dates.toJSON({codecs: [dateCodec]}), {codecs: [dateCodec]})
+   *  ```
+   *
+   * @param json
+   * @param reviver - A reviver function, or an options object that may hold one.
+   */
+  public static fromJSON<S>(json: string | DLinkedListJSON | any[],
+                            reviver?: JSONReviver | FromJSONOptions): DLinkedList<S> {
+    let options: FromJSONOptions = typeof reviver === 'function' ? {reviver} : (reviver || {})
+    let {codecs, reviver: revive, ...listOptions} = options
+    let parsed = typeof json === 'string'
+      ? JSON.parse(json, revive)
+      : revive ? JSON.parse(JSON.stringify(json), revive) : json
+    let data: DLinkedListJSON = Array.isArray(parsed) ? {values: parsed} : parsed
+
+    if (!data || !Array.isArray(data.values)) {
+      throw new TypeError('Expected an array of values or an object with a values array.')
+    }
+
+    let dll = new DLinkedList<S>({...data.options, ...listOptions})
+    data.values.forEach((value) => {
+      dll.append(decodeValue(value, codecs))
+    })
+    return dll
+  }
+
+  /**
+   * Reads newline delimited JSON, one value per line, as written by .toNDJSON.
+   * Accepts any iterable or async iterable of strings or Buffers, such as a file stream,
+   * and never holds more than one partial line in memory.
+   *
+   *  ```
+   *  const dll = await DLinkedList.fromNDJSON(fs.createReadStream('list.ndjson'))
+   *  ```
+   *
+   * @param source
+   * @param options
+   */
+  public static async fromNDJSON<S>(source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+                                    options: FromJSONOptions = {}): Promise<DLinkedList<S>> {
+    let {codecs, reviver, ...listOptions} = options
+    let dll = new DLinkedList<S>(listOptions)
+    for await (let line of readLines(source)) {
+      dll.append(decodeValue(JSON.parse(line, reviver), codecs))
+    }
+    return dll
+  }
+
+  /**
+   * Resolves with a DLinkedList holding every chunk read from an object mode stream, once it ends.
+   *
+   *  ```
+   *  const dll = await DLinkedList.fromReadable(source)
+   *  ```
+   *
+   * @param stream
+   * @param options
+   */
+  public static fromReadable<S>(stream: NodeJS.ReadableStream, options?: DLinkedListOptions<S>): Promise<DLinkedList<S>> {
+    return readInto(stream, new DLinkedList<S>(options))
+  }
+
+  readonly cloner: ClonerOption
+  readonly freeze: boolean
+  readonly proxy: boolean
+  readonly capacity: number
+  readonly overflow: OverflowPolicy
+  readonly iteration: IterationMode
+  readonly layout: LayoutKind
+  readonly chunkSize: number = null
+  private readonly onEvict: (value: T) => void
+  private readonly cloneFn: Cloner
+  private readonly storage: StorageMode
+  private readonly chain: Layout<T>
+  private readonly hooked: boolean
+  private adopted: NodeOwner[] = []
+  private changes = new ChangeEmitter<T>()
+  private history: History<Node<T>[]> = null
+  private travelling: boolean = false
+  private modificationCount: number = 0
+
+  /**
+   *
+   * ```
+   * const dll = new DLinkedList<Map<string, number>>({cloner: 'deep'})
+   * ```
+   *
+   * @param options
+   */
+  constructor(options: DLinkedListOptions<T> = {}) {
+    this.cloner = options.cloner || 'plain'
+    this.freeze = !!options.freeze
+    this.proxy = !!options.proxy
+    if (this.freeze && this.proxy) {
+      throw new TypeError('The freeze and proxy options cannot be combined.')
+    }
+    this.storage = this.freeze ? 'freeze' : this.proxy ? 'proxy' : 'clone'
+    this.cloneFn = resolveCloner(this.cloner)
+    this.capacity = options.capacity === undefined ? Infinity : options.capacity
+    this.overflow = options.overflow || 'drop-oldest'
+    this.onEvict = options.onEvict || null
+    if (!(this.capacity === Infinity || (Number.isInteger(this.capacity) && this.capacity > 0))) {
+      throw new RangeError(`Capacity must be a positive integer, got ${options.capacity}.`)
+    }
+    if (['drop-oldest', 'drop-newest', 'throw'].indexOf(this.overflow) === -1) {
+      throw new TypeError(`Unknown overflow policy "${this.overflow}".`)
+    }
+    this.iteration = options.iteration || 'fail-fast'
+    if (['fail-fast', 'snapshot'].indexOf(this.iteration) === -1) {
+      throw new TypeError(`Unknown iteration mode "${this.iteration}".`)
+    }
+    this.layout = options.layout || DLinkedList.defaultLayout
+    let owner = {list: this, attached: true}
+    if (this.layout === 'unrolled') {
+      this.chunkSize = options.chunkSize === undefined ? DLinkedList.defaultChunkSize : options.chunkSize
+      if (!(Number.isInteger(this.chunkSize) && this.chunkSize > 0)) {
+        throw new RangeError(`Chunk size must be a positive integer, got ${options.chunkSize}.`)
+      }
+      this.chain = new UnrolledLayout<T>(owner, this.cloneFn, this.storage, this.chunkSize)
+    } else if (this.layout === 'nodes') {
+      this.chain = new NodeLayout<T>(owner, this.cloneFn, this.storage)
+    } else {
+      throw new TypeError(`Unknown layout "${this.layout}".`)
+    }
+    // The unrolled layout only creates nodes when asked, so ask for one per value only when a hook needs them.
+    this.hooked = this.nodeAttached !== DLinkedList.prototype.nodeAttached ||
+      this.nodeReleased !== DLinkedList.prototype.nodeReleased ||
+      this.allReleased !== DLinkedList.prototype.allReleased ||
+      this.runAttached !== DLinkedList.prototype.runAttached
+    if (options.history) {
+      this.history = new History<Node<T>[]>([], options.history === true ? {} : options.history)
+      this.changes.subscribe(() => {
+        if (!this.travelling) {
+          this.history.commit(this.snapshot())
+        }
+      })
+    }
+  }
+
+  /**
+   * Number of changes made to the list so far. Every method that changes the list adds one or more.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2])
+   * const before = dll.modifications
+   * dll.append(3)
+   * dll.modifications > before // true
+   * ```
+   */
+  get modifications(): number {
+    return this.modificationCount
+  }
+
+  /**
+   * Number of values in the list.
+   */
+  get length(): number {
+    return this.chain.size
+  }
+
+  set length(length: number) {
+    this.chain.size = length
+  }
+
+  /**
+   * The first node, or null when the list is empty. Prefer {@link DLinkedList.headNode}, which hands out a read-only
+   * view. Only lists with the 'nodes' layout can have it assigned.
+   */
+  get head_node(): Node<T> {
+    return this.chain.first()
+  }
+
+  set head_node(node: Node<T>) {
+    this.nodeLayout().head = node
+  }
+
+  /**
+   * The last node, or null when the list is empty, see {@link DLinkedList.head_node}.
+   */
+  get tail_node(): Node<T> {
+    return this.chain.last()
+  }
+
+  set tail_node(node: Node<T>) {
+    this.nodeLayout().tail = node
+  }
 
   /**
    * Returns the value stored in the first position of the list.
@@ -97,14 +585,14 @@ export class DLinkedList<T> {
    *  ```
    */
   head(): T | null {
-    return !!this.head_node ? this.head_node.getData() : null
+    return this.length > 0 ? this.valueAt(0) : null
   }
 
   /**
-   * Returns the head node directly.
+   * Returns a read-only {@link NodeView} of the head node.
    */
-  headNode(): Node<T> {
-    return !!this.head_node ? this.head_node : null
+  headNode(): NodeView<T> | null {
+    return NodeView.of(this.head_node)
   }
 
   /**
@@ -117,14 +605,14 @@ export class DLinkedList<T> {
    *  ```
    */
   tail(): T | null {
-    return !!this.tail_node ? this.tail_node.getData() : null
+    return this.length > 0 ? this.valueAt(this.length - 1) : null
   }
 
   /**
-   * Returns the tail node directly.
+   * Returns a read-only {@link NodeView} of the tail node.
    */
-  tailNode(): Node<T> {
-    return !!this.tail_node ? this.tail_node : null
+  tailNode(): NodeView<T> | null {
+    return NodeView.of(this.tail_node)
   }
 
   /**
@@ -138,10 +626,11 @@ export class DLinkedList<T> {
    * @param arr - Any Array of values matching type T
    */
   fromArray(arr: T[]): DLinkedList<T> {
-    arr.forEach((value) => {
-      this.append(value)
+    return this.batch(() => {
+      arr.forEach((value) => {
+        this.append(value)
+      })
     })
-    return this
   }
 
   /**
@@ -155,16 +644,7 @@ export class DLinkedList<T> {
    * @param data - any value matching T
    */
   prepend(data: T): DLinkedList<T> {
-    if (this.head_node === null) {
-      this.head_node = new Node(data, null, null)
-      this.tail_node = this.head_node
-    } else {
-      const n = new Node(data, null, this.head_node);
-      this.head_node.setPrev(n);
-      this.head_node = n;
-    }
-    this.length += 1;
-    return this
+    return this.add(data, 0, false)
   }
 
   /**
@@ -178,78 +658,139 @@ export class DLinkedList<T> {
    * @param data - any value matching T
    */
   append(data: T): DLinkedList<T> {
-    if (this.head_node === null) {
-      this.head_node = new Node(data)
-      this.tail_node = this.head_node
-    } else {
-      const n = new Node(data, this.tail_node, null)
-      this.tail_node.setNext(n)
-      this.tail_node = n
-    }
-    this.length += 1
-    return this
+    return this.add(data, this.length, true)
   }
 
   /**
-   * Inserts data after the first value predicate function returns truthy for.
+   * Adds values to the end of the list, in order, and returns the new length.
    *
    * ```
-   *  const dll = DLinkedList.fromArray([1,2,4,5])
-   *  dll.insertAfter(v => v === 2, 3) // [1,2,3,4,5]
-   *
+   * const dll = DLinkedList.fromArray([1])
+   * dll.push(2, 3) // 3, dll: [1,2,3]
    * ```
    *
-   * @param predicate
-   * @param data
+   * @param values
    */
-  insertAfter(predicate: filterPredicate<T>, data: T): DLinkedList<T> {
-    let node = this.findNode(predicate)
-    if (!node) {
-      throw new Error('Unable to find a node matching predicate.')
-    }
-    return this.insertAfterNode(node, data)
-
+  push(...values: T[]): number {
+    this.batch(() => values.forEach(value => this.append(value)))
+    return this.length
   }
 
   /**
-   * Inserts data after the provided node.
-   * @param node
-   * @param data
+   * Removes the last value and returns it, or null when the list is empty.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.pop() // 3, dll: [1,2]
+   * ```
    */
-  insertAfterNode(node: Node<T>, data: T): DLinkedList<T> {
-    if (node) {
-      if (node.getNext() === null) {
-        return this.append(data)
-      }
-
-      const n = new Node(data, node, node.getNext())
-      node.getNext().setPrev(n)
-      node.setNext(n)
-      this.length += 1
-      return this
-    }
-
-    throw new Error('Not able to insert data.')
-
+  pop(): T | null {
+    let value = this.tail()
+    this.removeTail()
+    return value
   }
 
-
   /**
-   * Inserts data before the first value predicate function returns truthy for.
+   * Removes the first value and returns it, or null when the list is empty.
    *
    * ```
-   *  const dll = DLinkedList.fromArray([1,2,4,5])
-   *  dll.insertAfter(v => v === 4, 3) // [1,2,3,4,5]
-   *
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.shift() // 1, dll: [2,3]
    * ```
-   *
-   * @param predicate
-   * @param data
    */
-  insertBefore(predicate: filterPredicate<T>, data: T): DLinkedList<T> {
+  shift(): T | null {
+    let value = this.head()
+    this.removeHead()
+    return value
+  }
 
-    let node = this.findNode(predicate)
-    if (!node) {
+  /**
+   * Adds values to the front of the list, keeping their order, and returns the new length.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([3])
+   * dll.unshift(1, 2) // 3, dll: [1,2,3]
+   * ```
+   *
+   * @param values
+   */
+  unshift(...values: T[]): number {
+    this.batch(() => {
+      for (let i = values.length - 1; i >= 0; i--) {
+        this.prepend(values[i])
+      }
+    })
+    return this.length
+  }
+
+  /**
+   * Returns the first value without removing it, same as .head.
+   */
+  peekFront(): T | null {
+    return this.head()
+  }
+
+  /**
+   * Returns the last value without removing it, same as .tail.
+   */
+  peekBack(): T | null {
+    return this.tail()
+  }
+
+  /**
+   * Inserts data after the first value predicate function returns truthy for.
+   *
+   * ```
+   *  const dll = DLinkedList.fromArray([1,2,4,5])
+   *  dll.insertAfter(v => v === 2, 3) // [1,2,3,4,5]
+   *
+   * ```
+   *
+   * @param predicate
+   * @param data
+   */
+  insertAfter(predicate: filterPredicate<T>, data: T): DLinkedList<T> {
+    let node = this.findRawNode(predicate)
+    if (!node) {
+      throw new Error('Unable to find a node matching predicate.')
+    }
+    return this.insertAfterNode(node, data)
+
+  }
+
+  /**
+   * Inserts data after the provided node.
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has been removed.
+   * @param view
+   * @param data
+   */
+  insertAfterNode(view: NodeView<T> | Node<T>, data: T): DLinkedList<T> {
+    if (view) {
+      return this.add(data, {after: this.ownNode(view)}, true)
+    }
+
+    throw new Error('Not able to insert data.')
+
+  }
+
+
+  /**
+   * Inserts data before the first value predicate function returns truthy for.
+   *
+   * ```
+   *  const dll = DLinkedList.fromArray([1,2,4,5])
+   *  dll.insertAfter(v => v === 4, 3) // [1,2,3,4,5]
+   *
+   * ```
+   *
+   * @param predicate
+   * @param data
+   */
+  insertBefore(predicate: filterPredicate<T>, data: T): DLinkedList<T> {
+
+    let node = this.findRawNode(predicate)
+    if (!node) {
       throw new Error('Unable to find a node matching predicate.')
     }
     return this.insertBeforeNode(node, data)
@@ -259,21 +800,16 @@ export class DLinkedList<T> {
 
   /**
    * Inserts data before the node provided node
-   * @param node
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has been removed.
+   * @param view
    * @param data
    */
-  insertBeforeNode(node: Node<T>, data: T): DLinkedList<T> {
-
-    if (node) {
-      if (node.getPrev() === null) {
-        return this.prepend(data)
-      }
+  insertBeforeNode(view: NodeView<T> | Node<T>, data: T): DLinkedList<T> {
 
-      const n = new Node(data, node.getPrev(), node)
-      node.getPrev().setNext(n)
-      node.setPrev(n)
-      this.length += 1
-      return this
+    if (view) {
+      let node = this.ownNode(view)
+      return this.add(data, {before: node}, node !== this.head_node)
     }
 
     throw new Error('Unable to insert data.')
@@ -292,28 +828,26 @@ export class DLinkedList<T> {
    * @param predicate
    */
   remove(predicate: filterPredicate<T>): DLinkedList<T> {
-    let node = this.findNode(predicate)
+    let node = this.findRawNode(predicate)
 
     return this.removeNode(node)
-    // if(node){
-    //   if(node.getPrev() === null){
-    //     return this.removeHead()
-    //   }
-    //   node.getPrev().setNext(node.getNext())
-    //   node.getNext().setPrev(node.getPrev())
-    //   this.length -= 1;
-    // }
-    // return this
-  }
-
-  removeNode(node: Node<T>): DLinkedList<T> {
-    if (node) {
-      if (node.getPrev() === null) {
-        return this.removeHead()
-      }
-      node.getPrev().setNext(node.getNext())
-      node.getNext().setPrev(node.getPrev())
-      this.length -= 1;
+  }
+
+  /**
+   * Removes the provided node. Does nothing when node is null.
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has already been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.removeNode(dll.tailNode()) // [1,2]
+   * ```
+   *
+   * @param view
+   */
+  removeNode(view: NodeView<T> | Node<T>): DLinkedList<T> {
+    if (view) {
+      this.release(this.ownNode(view))
     }
     return this
   }
@@ -329,15 +863,8 @@ export class DLinkedList<T> {
    *
    */
   removeHead(): DLinkedList<T> {
-    if (this.head_node !== null) {
-      if (this.head_node.getNext() === null) {
-        this.head_node = null;
-        this.tail_node = null;
-      } else {
-        this.head_node = this.head_node.getNext();
-        this.head_node.setPrev(null);
-      }
-      this.length -= 1;
+    if (this.length > 0) {
+      this.removeIndex(0)
     }
     return this
   }
@@ -353,15 +880,8 @@ export class DLinkedList<T> {
    *
    */
   removeTail(): DLinkedList<T> {
-    if (this.tail_node !== null) {
-      if (this.tail_node.getPrev() === null) {
-        this.head_node = null;
-        this.tail_node = null;
-      } else {
-        this.tail_node = this.tail_node.getPrev();
-        this.tail_node.setNext(null);
-      }
-      this.length -= 1;
+    if (this.length > 0) {
+      this.removeIndex(this.length - 1)
     }
     return this
   }
@@ -370,67 +890,1454 @@ export class DLinkedList<T> {
    * Clears the list of all values.
    *
    * ```
-   * const dll = DLinkedList.fromArray([1,2,3,4,5])
-   * dll.clear() // []
-   *
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.clear() // []
+   *
+   * ```
+   */
+  clear(): DLinkedList<T> {
+    this.chain.owner.attached = false
+    this.adopted.forEach(owner => owner.attached = false)
+    this.chain.owner = {list: this, attached: true}
+    this.adopted = []
+    this.chain.clear()
+    this.allReleased()
+    this.modified()
+    if (this.changes.listening) {
+      this.changes.emit(clearRecord<T>())
+    }
+    return this
+  }
+
+  /**
+   * Checks the structure of the list and throws an {@link InvariantError} describing the first broken link.
+   * Verifies that the links run both ways from the head to the tail without cycles, that every node belongs
+   * to this list, and that the values reachable from the head number length. With the 'unrolled' layout the
+   * links are between chunks, which must each hold between one and chunkSize values.
+   * Returns the list when all is well.
+   *
+   * ```
+   * dll.validate()
+   * ```
+   */
+  validate(): DLinkedList<T> {
+    this.chain.validate(this)
+    return this
+  }
+
+  /**
+   * Registers handler for changes of kind and returns a function that unregisters it.
+   * Handlers receive one {@link ChangeRecord} at a time. Changes made inside .batch are delivered
+   * once the batch finishes.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,3])
+   * const off = dll.on('insert', (change) => console.log(change.index, change.value))
+   * dll.insertAt(1, 2) // logs 1 2
+   * off()
+   * ```
+   *
+   * @param kind - 'insert', 'remove', 'update' or 'clear'
+   * @param handler
+   */
+  on(kind: ChangeKind, handler: ChangeHandler<T>): () => void {
+    return this.changes.on(kind, handler)
+  }
+
+  /**
+   * Registers subscriber for every change and returns a function that unregisters it.
+   * Subscribers receive an array of {@link ChangeRecord}s per notification, holding a single record,
+   * or every record of a batch. Sorting and reversing are reported as a clear followed by an insert per value.
+   *
+   * ```
+   * const dll = new DLinkedList<number>()
+   * dll.subscribe(changes => render(changes))
+   * dll.fromArray([1,2,3]) // render is called once with three insert records
+   * ```
+   *
+   * @param subscriber
+   */
+  subscribe(subscriber: ChangeSubscriber<T>): () => void {
+    return this.changes.subscribe(subscriber)
+  }
+
+  /**
+   * Runs fn with this list and delivers every change it makes as a single notification once it returns,
+   * or throws. Batches may be nested, only the outermost one notifies.
+   *
+   * ```
+   * dll.batch((list) => {
+   *   list.removeHead().append(4)
+   * })
+   * ```
+   *
+   * @param fn
+   */
+  batch(fn: (list: DLinkedList<T>) => void): DLinkedList<T> {
+    this.changes.batch(() => fn(this))
+    return this
+  }
+
+  /**
+   * Runs fn with this list and keeps all of its changes, or none of them. When fn throws, every node is
+   * relinked as it was, length is restored, and the error is rethrown. Node handles held before the
+   * transaction stay valid either way, and subscribers only hear about transactions that complete.
+   *
+   * Only this list is restored. Lists that gave nodes to it, or took nodes from it, keep their new contents.
+   *
+   * ```
+   * dll.transaction((list) => {
+   *   list.removeHead()
+   *   list.insertAfter(v => v === 'missing', 1) // throws, the head is back in place
+   * })
+   * ```
+   *
+   * @param fn
+   */
+  transaction(fn: (list: DLinkedList<T>) => void): DLinkedList<T> {
+    let before = this.snapshot()
+    this.changes.batch(() => {
+      let mark = this.changes.mark()
+      try {
+        fn(this)
+      } catch (err) {
+        this.changes.discard(mark)
+        this.restore(before)
+        throw err
+      }
+    })
+    return this
+  }
+
+  /**
+   * True when the history option is enabled and there is a change to undo.
+   */
+  get canUndo(): boolean {
+    return this.history !== null && this.history.canUndo
+  }
+
+  /**
+   * True when the history option is enabled and there is an undone change to redo.
+   */
+  get canRedo(): boolean {
+    return this.history !== null && this.history.canRedo
+  }
+
+  /**
+   * Undoes the last change, or every change since the checkpoint labeled label.
+   * Each call to a mutating method, each .batch and each .transaction is a single step.
+   * Requires the history option. Subscribers are told about the restored contents as a clear
+   * followed by an insert per value.
+   *
+   * ```
+   * const dll = new DLinkedList<number>({history: {depth: 50}})
+   * dll.append(1).checkpoint('one')
+   * dll.append(2).append(3)
+   * dll.undo() // [1,2]
+   * dll.undo('one') // [1]
+   * dll.redo() // [1,2]
+   * ```
+   *
+   * @param label
+   */
+  undo(label?: string): DLinkedList<T> {
+    return this.travel(this.ensureHistory().undo(label), label)
+  }
+
+  /**
+   * Redoes the last undone change, or every undone change up to the checkpoint labeled label.
+   * Requires the history option.
+   * @param label
+   */
+  redo(label?: string): DLinkedList<T> {
+    return this.travel(this.ensureHistory().redo(label), label)
+  }
+
+  /**
+   * Labels the current contents, so .undo and .redo can return to them by name. Requires the history option.
+   * @param label
+   */
+  checkpoint(label: string): DLinkedList<T> {
+    this.ensureHistory().checkpoint(label)
+    return this
+  }
+
+  /**
+   * Forgets every recorded step. Requires the history option.
+   */
+  clearHistory(): DLinkedList<T> {
+    this.ensureHistory().clear(this.snapshot())
+    return this
+  }
+
+  /**
+   * Moves the provided node to the front of the list by relinking it, without copying its value.
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.moveToHead(dll.tailNode()) // [3,1,2]
+   * ```
+   *
+   * @param view
+   */
+  moveToHead(view: NodeView<T> | Node<T>): DLinkedList<T> {
+    let node = this.ownNode(view)
+    if (node === this.head_node) {
+      return this
+    }
+    let change = this.changes.listening ? this.record('remove', node, this.indexOfNode(node)) : null
+    this.chain.unlink(node)
+    this.chain.link(node, 0)
+    this.modified()
+    this.emitMove(change, node, 0)
+    return this
+  }
+
+  /**
+   * Moves the provided node to the end of the list by relinking it, without copying its value.
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.moveToTail(dll.headNode()) // [2,3,1]
+   * ```
+   *
+   * @param view
+   */
+  moveToTail(view: NodeView<T> | Node<T>): DLinkedList<T> {
+    let node = this.ownNode(view)
+    if (node === this.tail_node) {
+      return this
+    }
+    let change = this.changes.listening ? this.record('remove', node, this.indexOfNode(node)) : null
+    this.chain.unlink(node)
+    this.chain.link(node, this.length)
+    this.modified()
+    this.emitMove(change, node, this.length - 1)
+    return this
+  }
+
+  /**
+   * Moves the provided node so it sits directly before target, by relinking it without copying its value.
+   * Throws a {@link ForeignNodeError} if either node belongs to another list,
+   * or a {@link DetachedNodeError} if either has been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.moveBeforeNode(dll.tailNode(), dll.headNode()) // [3,1,2]
+   * ```
+   *
+   * @param view
+   * @param target
+   */
+  moveBeforeNode(view: NodeView<T> | Node<T>, target: NodeView<T> | Node<T>): DLinkedList<T> {
+    let node = this.ownNode(view)
+    let before = this.ownNode(target)
+    if (node === before || node.getNext() === before) {
+      return this
+    }
+    let change = this.changes.listening ? this.record('remove', node, this.indexOfNode(node)) : null
+    this.chain.unlink(node)
+    this.chain.link(node, {before})
+    this.modified()
+    this.emitMove(change, node, change === null ? 0 : this.indexOfNode(node))
+    return this
+  }
+
+  /**
+   * Moves the provided node so it sits directly after target, by relinking it without copying its value.
+   * Throws a {@link ForeignNodeError} if either node belongs to another list,
+   * or a {@link DetachedNodeError} if either has been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.moveAfterNode(dll.headNode(), dll.tailNode()) // [2,3,1]
+   * ```
+   *
+   * @param view
+   * @param target
+   */
+  moveAfterNode(view: NodeView<T> | Node<T>, target: NodeView<T> | Node<T>): DLinkedList<T> {
+    let node = this.ownNode(view)
+    let after = this.ownNode(target)
+    if (node === after || node.getPrev() === after) {
+      return this
+    }
+    let change = this.changes.listening ? this.record('remove', node, this.indexOfNode(node)) : null
+    this.chain.unlink(node)
+    this.chain.link(node, {after})
+    this.modified()
+    this.emitMove(change, node, change === null ? 0 : this.indexOfNode(node))
+    return this
+  }
+
+  /**
+   * Returns the value stored at index. Negative indexes count back from the tail.
+   * Throws a RangeError when index is out of bounds.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.at(2) // 3
+   * dll.at(-2) // 4
+   * ```
+   *
+   * @param index
+   */
+  at(index: number): T {
+    return this.valueAt(this.normalizeIndex(index, this.length - 1))
+  }
+
+  /**
+   * Returns a {@link NodeView} of the node at index, walking from whichever end of the list is closer.
+   * Negative indexes count back from the tail.
+   * Throws a RangeError when index is out of bounds.
+   *
+   * @param index
+   */
+  nodeAt(index: number): NodeView<T> {
+    return NodeView.of(this.rawNodeAt(index))
+  }
+
+  /**
+   * Returns the {@link Node} at index, see {@link DLinkedList.nodeAt}.
+   * @param index
+   */
+  private rawNodeAt(index: number): Node<T> {
+    return this.chain.nodeAt(this.normalizeIndex(index, this.length - 1))
+  }
+
+  /**
+   * Replaces the value stored at index. Negative indexes count back from the tail.
+   * Throws a RangeError when index is out of bounds.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.setAt(-1, 30) // [1,2,30]
+   * ```
+   *
+   * @param index
+   * @param data
+   */
+  setAt(index: number, data: T): DLinkedList<T> {
+    let i = this.normalizeIndex(index, this.length - 1)
+    if (this.hooked || this.changes.listening) {
+      return this.replaceNode(this.chain.nodeAt(i), data)
+    }
+    this.chain.update(i, data)
+    this.modified()
+    return this
+  }
+
+  /**
+   * Replaces the provided node with a new node holding data. The old node is removed.
+   * Throws a {@link ForeignNodeError} if node belongs to another list,
+   * or a {@link DetachedNodeError} if it has been removed.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.replaceNode(dll.headNode(), 10) // [10,2,3]
+   * ```
+   *
+   * @param view
+   * @param data
+   */
+  replaceNode(view: NodeView<T> | Node<T>, data: T): DLinkedList<T> {
+    let node = this.ownNode(view)
+    let n: Node<T>
+    this.nodeReleased(node)
+    try {
+      n = this.createNode(data)
+    } catch (err) {
+      this.nodeAttached(node)
+      throw err
+    }
+
+    this.chain.replace(node, n)
+    let change = this.changes.listening ? this.record('update', n, this.indexOfNode(n), node) : null
+    this.detach(node)
+    this.modified()
+    this.emitChange(change)
+    return this
+  }
+
+  /**
+   * Inserts data so that it ends up at index. An index equal to length appends.
+   * Negative indexes count back from the tail.
+   * Throws a RangeError when index is out of bounds.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,4])
+   * dll.insertAt(2, 3) // [1,2,3,4]
+   * ```
+   *
+   * @param index
+   * @param data
+   */
+  insertAt(index: number, data: T): DLinkedList<T> {
+    let i = this.normalizeIndex(index, this.length)
+    return this.add(data, i, i > 0 || this.length === 0)
+  }
+
+  /**
+   * Removes the value stored at index. Negative indexes count back from the tail.
+   * Throws a RangeError when index is out of bounds.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.removeAt(-1) // [1,2]
+   * ```
+   *
+   * @param index
+   */
+  removeAt(index: number): DLinkedList<T> {
+    this.removeIndex(this.normalizeIndex(index, this.length - 1))
+    return this
+  }
+
+  /**
+   * Returns a {@link Cursor} positioned at the head, the tail,
+   * or the first value predicate function returns truthy for.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * const cursor = dll.cursor(v => v === 2)
+   * cursor.insertBefore(1.5).next().value() // 3
+   * ```
+   *
+   * @param position - 'head', 'tail' or a predicate. Defaults to 'head'.
+   */
+  cursor(position: 'head' | 'tail' | filterPredicate<T> = 'head'): Cursor<T> {
+    if (position === 'head') {
+      return new Cursor(this, this.headNode())
+    }
+    if (position === 'tail') {
+      return new Cursor(this, this.tailNode())
+    }
+    let node = this.findNode(position)
+    if (!node) {
+      throw new Error('Unable to find a node matching predicate.')
+    }
+    return new Cursor(this, node)
+  }
+
+  /**
+   * Returns a new DLinkedList holding the values from start up to, but not including, end.
+   * Follows Array.prototype.slice semantics, including negative indexes.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.slice(1, -1) // [2,3,4]
+   * ```
+   *
+   * @param start
+   * @param end
+   */
+  slice(start: number = 0, end: number = this.length): DLinkedList<T> {
+    let from = start < 0 ? Math.max(this.length + start, 0) : Math.min(start, this.length)
+    let to = end < 0 ? Math.max(this.length + end, 0) : Math.min(end, this.length)
+    let results = this.derive<T>([])
+    if (from >= to) {
+      return results
+    }
+
+    let cells = this.chain.cells(from, false)
+    for (let i = from; i < to; i++) {
+      results.append(this.chain.read(cells.next().value))
+    }
+    return results
+  }
+
+  /**
+   * Returns a new DLinkedList holding the values of this list followed by the values of each supplied list
+   * or iterable. Values are copied, so neither this list nor the supplied ones change.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2])
+   * dll.concat(DLinkedList.fromArray([3]), [4,5]) // [1,2,3,4,5]
+   * ```
+   *
+   * @param lists
+   */
+  concat(...lists: Iterable<T>[]): DLinkedList<T> {
+    let results = this.slice()
+    lists.forEach((list) => {
+      for (let value of list) {
+        results.append(value)
+      }
+    })
+    return results
+  }
+
+  /**
+   * Moves every node of other onto the end of this list in constant time, leaving other empty.
+   * Values are not copied, and node handles from other stay valid and now belong to this list.
+   * Both lists must share the same storage options, otherwise a TypeError is thrown.
+   *
+   * ```
+   * const a = DLinkedList.fromArray([1,2])
+   * const b = DLinkedList.fromArray([3,4])
+   * a.absorb(b) // a: [1,2,3,4], b: []
+   * ```
+   *
+   * @param other
+   */
+  absorb(other: DLinkedList<T>): DLinkedList<T> {
+    if (other === this) {
+      throw new Error('A list cannot absorb itself.')
+    }
+    if (other.cloneFn !== this.cloneFn || other.storage !== this.storage ||
+      other.layout !== this.layout || other.chunkSize !== this.chunkSize) {
+      throw new TypeError('Only lists with the same storage options can be absorbed.')
+    }
+    if (other.length === 0) {
+      return this
+    }
+    if (this.overflow === 'throw' && this.length + other.length > this.capacity) {
+      throw new CapacityError(this.capacity)
+    }
+
+    let index = this.length
+    this.chain.join(other.chain)
+
+    let moved = [other.chain.owner, ...other.adopted]
+    moved.forEach(owner => owner.list = this)
+    this.adopted.push(...moved)
+
+    other.chain.owner = {list: other, attached: true}
+    other.adopted = []
+    other.allReleased()
+    if (this.hooked) {
+      this.runAttached(this.chain.nodeAt(index))
+    }
+    other.modified()
+
+    if (other.changes.listening) {
+      other.changes.emit(clearRecord<T>())
+    }
+    this.modified()
+    return this.batch(() => {
+      if (this.changes.listening) {
+        this.emitInserts(index)
+      }
+      this.trim(this.overflow === 'drop-oldest')
+    })
+  }
+
+  /**
+   * Cuts the list in two before index, or before the provided node. This list keeps the values in front
+   * of the cut, and a new list holding the rest is returned alongside it. Nodes are moved, not copied,
+   * and handles to moved nodes belong to the new list afterwards.
+   * Negative indexes count back from the tail, an index equal to length leaves the new list empty.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * const [front, back] = dll.splitAt(2) // front === dll: [1,2], back: [3,4,5]
+   * ```
+   *
+   * @param position - An index or a node of this list.
+   */
+  splitAt(position: number | NodeView<T> | Node<T>): [DLinkedList<T>, DLinkedList<T>] {
+    let index = typeof position === 'number'
+      ? this.normalizeIndex(position, this.length)
+      : this.indexOfNode(this.ownNode(position))
+    let rest = index === this.length ? this.derive<T>([]) : this.detachRun(index, this.length - index)
+    return [this, rest]
+  }
+
+  /**
+   * Removes deleteCount values starting at start and inserts items in their place, following
+   * Array.prototype.splice semantics. Returns a new list holding the removed values, whose nodes
+   * are moved rather than copied.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.splice(1, 2, 20, 30, 40) // returns [2,3], dll: [1,20,30,40,4,5]
+   * ```
+   *
+   * @param start
+   * @param deleteCount - Defaults to every value from start to the tail.
+   * @param items
+   */
+  splice(start: number, deleteCount: number = Infinity, ...items: T[]): DLinkedList<T> {
+    let from = start < 0 ? Math.max(this.length + start, 0) : Math.min(start, this.length)
+    let count = Math.min(Math.max(deleteCount, 0), this.length - from)
+    let removed = this.derive<T>([])
+
+    this.batch(() => {
+      if (count > 0) {
+        removed = this.detachRun(from, count)
+      }
+
+      let next = from === this.length || items.length === 0 ? null : this.rawNodeAt(from)
+      items.forEach((item) => {
+        if (next === null) {
+          this.append(item)
+        } else {
+          this.insertBeforeNode(next, item)
+        }
+      })
+    })
+    return removed
+  }
+
+  /**
+   * Reverses the list in place by swapping the links of every node. Node handles stay valid.
+   * Use {@link DLinkedList.reverse} to iterate from the tail without changing the list.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.reverseInPlace() // [3,2,1]
+   * ```
+   */
+  reverseInPlace(): DLinkedList<T> {
+    this.chain.reverse()
+    this.modified()
+    this.emitReorder()
+    return this
+  }
+
+  /**
+   * Sorts the list in place by relinking its nodes, without copying any values.
+   * The sort is stable, equal values keep their relative order, and node handles stay valid.
+   * Each value is read once, so comparator receives the same clone of a value throughout the sort.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([3,1,2])
+   * dll.sort() // [1,2,3]
+   * dll.sort((a, b) => b - a) // [3,2,1]
+   * ```
+   *
+   * @param comparator - Defaults to {@link naturalOrder}.
+   */
+  sort(comparator: sortComparator<T> = naturalOrder): DLinkedList<T> {
+    if (this.length < 2) {
+      return this
+    }
+    this.chain.sort(comparator)
+    this.modified()
+    this.emitReorder()
+    return this
+  }
+
+  /**
+   * Returns a new, sorted DLinkedList and leaves this list untouched. See {@link DLinkedList.sort}.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([3,1,2])
+   * dll.sorted() // [1,2,3]
+   * dll.toArray() // [3,1,2]
+   * ```
+   *
+   * @param comparator - Defaults to {@link naturalOrder}.
+   */
+  sorted(comparator: sortComparator<T> = naturalOrder): DLinkedList<T> {
+    return this.slice().sort(comparator)
+  }
+
+  /**
+   * True when other holds the same number of values as this list, and they are equal in order.
+   * Values are compared by identity unless deep or comparator is passed, see {@link EqualsOptions}.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([{id: 1}, {id: 2}])
+   * dll.equals([{id: 1}, {id: 2}]) // false, values are cloned objects
+   * dll.equals([{id: 1}, {id: 2}], {deep: true}) // true
+   * dll.equals([{id: 1}, {id: 2}], {comparator: (a, b) => a.id === b.id}) // true
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   * @param options
+   */
+  equals(other: Iterable<T>, options?: EqualsOptions<T>): boolean {
+    if (other instanceof DLinkedList && other.length !== this.length) {
+      return false
+    }
+    let equal = resolveEquality(options)
+    let values = this.scan()
+    for (let value of other) {
+      let step = values.next()
+      if (step.done || !equal(step.value[0], value)) {
+        return false
+      }
+    }
+    return values.next().done
+  }
+
+  /**
+   * Returns a minimal edit script of insert, remove, move and update steps that turns this list into other.
+   * The {@link Patch} is plain, versioned JSON, ready to be sent elsewhere and replayed with .applyPatch.
+   * Values are matched as .equals matches them.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4])
+   * dll.diff([4,1,2,5])
+   * // {version: 1, length: 4, ops: [{op: 'update', index: 2, value: 5}, {op: 'move', from: 3, to: 0}]}
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   * @param options
+   */
+  diff(other: Iterable<T>, options?: EqualsOptions<T>): Patch<T> {
+    return diffValues(this.toArray(), Array.from(other), resolveEquality(options))
+  }
+
+  /**
+   * Replays a patch made by .diff onto this list, step by step through .insertAfterNode, .removeNode,
+   * .replaceNode and the node moves, so nodes the patch does not touch are kept along with handles to them.
+   * The patch is applied as a transaction: when any step fails, the list is left as it was.
+   * Throws a {@link PatchError} for an unsupported version, a malformed step, or a list of another length
+   * than the one the patch was made from.
+   *
+   * ```
+   * const server = DLinkedList.fromArray([1,2,3,4])
+   * const client = DLinkedList.fromArray([1,2,3,4])
+   * server.reverseInPlace()
+   * client.applyPatch(JSON.stringify(client.diff(server))) // [4,3,2,1]
+   * ```
+   *
+   * @param patch - A patch or its JSON.
+   */
+  applyPatch(patch: Patch<T> | string): DLinkedList<T> {
+    let parsed: Patch<T> = typeof patch === 'string' ? JSON.parse(patch) : patch
+    checkPatch(parsed, this.length)
+    return this.transaction(() => {
+      parsed.ops.forEach(op => this.applyOperation(op))
+    })
+  }
+
+  /**
+   * Applies a single step of a patch.
+   * @param op
+   */
+  private applyOperation(op: PatchOperation<T>): void {
+    switch (op.op) {
+      case 'insert':
+        if (op.index === 0) {
+          this.prepend(op.value)
+        } else {
+          this.insertAfterNode(this.patchNode(op.index - 1), op.value)
+        }
+        break
+      case 'remove':
+        this.removeNode(this.patchNode(op.index))
+        break
+      case 'update':
+        this.replaceNode(this.patchNode(op.index), op.value)
+        break
+      case 'move':
+        let node = this.patchNode(op.from)
+        if (op.to === 0) {
+          this.moveToHead(node)
+        } else if (op.to < op.from) {
+          this.moveAfterNode(node, this.patchNode(op.to - 1))
+        } else if (op.to > op.from) {
+          this.moveAfterNode(node, this.patchNode(op.to))
+        }
+        break
+      default:
+        throw new PatchError(`Unknown patch operation ${JSON.stringify(op)}.`)
+    }
+  }
+
+  /**
+   * Returns the node at index for a patch step, throwing a {@link PatchError} when there is none.
+   * @param index
+   */
+  private patchNode(index: number): Node<T> {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      throw new PatchError(`Patch index ${index} is out of range for a list of length ${this.length}.`)
+    }
+    return this.rawNodeAt(index)
+  }
+
+  /**
+   * Adds data at place, reports the insert, and trims the list back to capacity from the head, or from the tail.
+   * The insert and any eviction it causes are reported together, as one change.
+   * @param data
+   * @param place
+   * @param fromHead
+   */
+  private add(data: T, place: Place<T>, fromHead: boolean): DLinkedList<T> {
+    return this.batch(() => {
+      if (!this.admit(data)) {
+        return
+      }
+      let node = this.store(data, place)
+      if (this.changes.listening) {
+        this.changes.emit(this.record('insert', node, typeof place === 'number' ? place : this.indexOfNode(node)))
+      }
+      this.modified()
+      this.trim(fromHead)
+    })
+  }
+
+  /**
+   * Stores data at place. When a hook or a subscriber needs the node it is created here, attached and returned,
+   * otherwise the layout decides whether to create one and null is returned.
+   * @param data
+   * @param place
+   */
+  private store(data: T, place: Place<T>): Node<T> | null {
+    if (!this.hooked && !this.changes.listening) {
+      this.chain.insert(data, place)
+      return null
+    }
+    let node = this.createNode(data)
+    this.chain.link(node, place)
+    return node
+  }
+
+  /**
+   * Creates an unlinked node that stores data with this list's storage options, and attaches it to this list.
+   * @param data
+   */
+  private createNode(data: T): Node<T> {
+    let node = this.chain.create(data)
+    this.nodeAttached(node)
+    node.setOwner(this.chain.owner)
+    return node
+  }
+
+  /**
+   * Removes the value at index. Its node is only asked for when a hook or a subscriber needs it.
+   * @param index
+   */
+  private removeIndex(index: number): void {
+    if (this.hooked || this.changes.listening) {
+      this.release(this.chain.nodeAt(index), index)
+      return
+    }
+    this.chain.remove(index)
+    this.modified()
+  }
+
+  /**
+   * Unlinks node, releases it and reports its removal.
+   * @param node
+   * @param index - Position of node, when it is already known.
+   */
+  private release(node: Node<T>, index?: number): void {
+    let change = this.changes.listening
+      ? this.record('remove', node, index === undefined ? this.indexOfNode(node) : index)
+      : null
+    this.chain.unlink(node)
+    this.detach(node)
+    this.modified()
+    this.emitChange(change)
+  }
+
+  /**
+   * Returns the value at index, which must be in range, without asking the layout for a node.
+   * @param index
+   */
+  private valueAt(index: number): T {
+    return this.chain.read(this.chain.cells(index, false).next().value)
+  }
+
+  /**
+   * Returns the layout when it is the 'nodes' layout, whose links can be assigned directly.
+   */
+  private nodeLayout(): NodeLayout<T> {
+    if (!(this.chain instanceof NodeLayout)) {
+      throw new TypeError(`The nodes of a list with the ${this.layout} layout cannot be assigned.`)
+    }
+    return this.chain
+  }
+
+  /**
+   * Called with every node that joins this list, before it is linked in, and again for nodes an undo
+   * or rollback puts back. Subclasses that index nodes override it and may throw to reject the node.
+   * @param node
+   */
+  protected nodeAttached(node: Node<T>): void {
+  }
+
+  /**
+   * Called with every node that leaves this list, other than through .clear.
+   * @param node
+   */
+  protected nodeReleased(node: Node<T>): void {
+  }
+
+  /**
+   * Called once every node has left this list, by .clear or by another list absorbing this one.
+   */
+  protected allReleased(): void {
+  }
+
+  /**
+   * Called after nodes from first to the tail were absorbed from another list.
+   * @param first
+   */
+  protected runAttached(first: Node<T>): void {
+  }
+
+  /**
+   * Decides whether data may be added under the overflow policy. Returns false when data is dropped.
+   * @param data
+   */
+  private admit(data: T): boolean {
+    if (this.length < this.capacity || this.overflow === 'drop-oldest') {
+      return true
+    }
+    if (this.overflow === 'throw') {
+      throw new CapacityError(this.capacity)
+    }
+    if (this.onEvict) {
+      this.onEvict(data)
+    }
+    return false
+  }
+
+  /**
+   * Removes values beyond capacity from the head, or from the tail, handing each to onEvict.
+   * @param fromHead
+   */
+  private trim(fromHead: boolean): DLinkedList<T> {
+    while (this.length > this.capacity) {
+      let value = fromHead ? this.shift() : this.pop()
+      if (this.onEvict) {
+        this.onEvict(value)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Builds the change record for node, reading its neighbours as they are linked now.
+   * @param kind
+   * @param node
+   * @param index
+   * @param replaced - The node an update replaced.
+   */
+  private record(kind: ChangeKind, node: Node<T>, index: number, replaced?: Node<T>): ChangeRecord<T> {
+    let prev = node.getPrev()
+    let next = node.getNext()
+    return {
+      kind,
+      index,
+      value: node.getData(),
+      previous: replaced ? replaced.getData() : null,
+      prev: prev ? prev.getData() : null,
+      next: next ? next.getData() : null
+    }
+  }
+
+  /**
+   * Emits change when it was recorded, that is when someone was listening before the change was made.
+   * @param change
+   */
+  private emitChange(change: ChangeRecord<T> | null): void {
+    if (change !== null) {
+      this.changes.emit(change)
+    }
+  }
+
+  /**
+   * Reports a node moved to index as its removal, recorded before the move, followed by its insertion.
+   * @param removal
+   * @param node
+   * @param index
+   */
+  private emitMove(removal: ChangeRecord<T> | null, node: Node<T>, index: number): void {
+    if (removal !== null) {
+      this.changes.batch(() => {
+        this.changes.emit(removal)
+        this.changes.emit(this.record('insert', node, index))
+      })
+    }
+  }
+
+  /**
+   * Reports a change of order as a clear followed by an insert per value.
+   */
+  private emitReorder(): void {
+    if (!this.changes.listening) {
+      return
+    }
+    this.changes.batch(() => {
+      this.changes.emit(clearRecord<T>())
+      this.emitInserts(0)
+    })
+  }
+
+  /**
+   * Reports the values from index to the tail as inserts, each without a next value.
+   * @param index
+   */
+  private emitInserts(index: number): void {
+    let prev = index > 0 ? this.valueAt(index - 1) : null
+    for (let cell of this.chain.cells(index, false)) {
+      this.changes.emit({kind: 'insert', index, value: this.chain.read(cell), previous: null, prev, next: null})
+      prev = this.chain.read(cell)
+      index += 1
+    }
+  }
+
+  /**
+   * Position of node, counted from the head.
+   * @param node
+   */
+  private indexOfNode(node: Node<T>): number {
+    return this.chain.indexOf(node)
+  }
+
+  /**
+   * The nodes of this list, from head to tail.
+   */
+  private snapshot(): Node<T>[] {
+    let nodes = []
+    for (let current = this.head_node; current !== null; current = current.getNext()) {
+      nodes.push(current)
+    }
+    return nodes
+  }
+
+  /**
+   * Relinks nodes into this list, in order, and releases any node that is not among them.
+   * A node that has since moved to another list is left there, and a copy takes its place.
+   * @param nodes
+   */
+  private restore(nodes: Node<T>[]): void {
+    let kept = new Set(nodes)
+    let current = this.head_node
+    while (current !== null) {
+      let next = current.getNext()
+      if (!kept.has(current)) {
+        this.chain.unlink(current)
+        this.detach(current)
+      }
+      current = next
+    }
+
+    nodes.forEach((node, i) => {
+      let owner = node.getOwner()
+      if (owner !== null && owner.list !== this && node.isAttached()) {
+        nodes[i] = this.createNode(node.getData())
+      }
+    })
+    nodes.forEach((node) => {
+      this.nodeAttached(node)
+      node.setOwner(this.chain.owner)
+    })
+    this.chain.relink(nodes)
+    this.modified()
+  }
+
+  /**
+   * Restores state handed back by the history, if any, and reports it to subscribers without recording it.
+   * @param state
+   * @param label
+   */
+  private travel(state: Node<T>[] | null, label?: string): DLinkedList<T> {
+    if (state === null) {
+      if (label !== undefined) {
+        throw new Error(`No checkpoint labeled "${label}" was found.`)
+      }
+      return this
+    }
+    this.restore(state.slice())
+    this.travelling = true
+    try {
+      this.emitReorder()
+    } finally {
+      this.travelling = false
+    }
+    return this
+  }
+
+  /**
+   * Returns the history, throwing when the history option is not enabled or a batch is open.
+   */
+  private ensureHistory(): History<Node<T>[]> {
+    if (this.history === null) {
+      throw new Error('History is not enabled for this list, pass {history: true} when creating it.')
+    }
+    if (this.changes.batching) {
+      throw new Error('History cannot be used inside a batch or transaction.')
+    }
+    return this.history
+  }
+
+  /**
+   * Resolves a view to its node and verifies the node is currently part of this list.
+   * @param view
+   */
+  protected ownNode(view: NodeView<T> | Node<T>): Node<T> {
+    let node = view instanceof NodeView ? nodeOf(view) : view
+    let owner = node.getOwner()
+    if (owner !== null && owner.list !== this) {
+      throw new ForeignNodeError()
+    }
+    if (!node.isAttached()) {
+      throw new DetachedNodeError()
+    }
+    return node
+  }
+
+  /**
+   * Releases a node that has been unlinked from this list, so stale handles to it are rejected.
+   * @param node
+   */
+  private detach(node: Node<T>): void {
+    this.nodeReleased(node)
+    node.setOwner(null)
+  }
+
+  /**
+   * Unlinks the count values from index on and returns a new list, sharing this list's storage options,
+   * that owns them.
+   * @param index
+   * @param count
+   */
+  private detachRun(index: number, count: number): DLinkedList<T> {
+    let changes: ChangeRecord<T>[] = []
+    if (this.changes.listening) {
+      let prev = index > 0 ? this.valueAt(index - 1) : null
+      let cells = this.chain.cells(index, false)
+      let current = cells.next()
+      for (let i = 0; i < count; i++) {
+        let next = cells.next()
+        changes.push({
+          kind: 'remove', index, value: this.chain.read(current.value), previous: null, prev,
+          next: next.done ? null : this.chain.read(next.value)
+        })
+        current = next
+      }
+    }
+    if (this.hooked) {
+      let current = this.chain.nodeAt(index)
+      for (let i = 0; i < count; i++) {
+        let next = current.getNext()
+        this.nodeReleased(current)
+        current = next
+      }
+    }
+
+    let run = this.derive<T>([])
+    this.chain.cut(index, count, run.chain)
+    this.modified()
+    run.modified()
+    this.changes.batch(() => changes.forEach(change => this.changes.emit(change)))
+    return run
+  }
+
+  /**
+   * Creates a new list from values that shares this list's storage options.
+   * @param values
+   */
+  private derive<V>(values: V[]): DLinkedList<V> {
+    return DLinkedList.fromArray(values, this.storageOptions())
+  }
+
+  /**
+   * The options lists derived from this one are created with: how values are cloned and stored, and the layout.
+   */
+  private storageOptions(): DLinkedListOptions {
+    return {
+      cloner: this.cloner,
+      freeze: this.freeze,
+      proxy: this.proxy,
+      layout: this.layout,
+      chunkSize: this.chunkSize
+    }
+  }
+
+  /**
+   * Counts a change to the list, then validates it while {@link DLinkedList.debug} is on.
+   * Called by every method that changes the list, once the change is complete.
+   */
+  private modified(): void {
+    this.modificationCount += 1
+    if (DLinkedList.debug) {
+      this.validate()
+    }
+  }
+
+  /**
+   * Returns an iterator over the nodes from start, towards the tail or, when backwards, towards the head.
+   * In 'fail-fast' mode it throws a {@link ConcurrentModificationError} if the list changes before the next node
+   * is reached. In 'snapshot' mode the nodes are collected up front, and changes do not affect the walk.
+   * @param start
+   * @param backwards
+   */
+  protected walk(start: Node<T> | null = this.head_node, backwards: boolean = false): IterableIterator<Node<T>> {
+    if (this.iteration === 'snapshot') {
+      let nodes: Node<T>[] = []
+      for (let current = start; current !== null; current = backwards ? current.getPrev() : current.getNext()) {
+        nodes.push(current)
+      }
+      return nodes[Symbol.iterator]()
+    }
+    return this.guardedWalk(start, backwards, this.modificationCount)
+  }
+
+  private * guardedWalk(start: Node<T> | null, backwards: boolean, expected: number): IterableIterator<Node<T>> {
+    let current = start
+    while (current !== null) {
+      yield current
+      if (this.modificationCount !== expected) {
+        throw new ConcurrentModificationError()
+      }
+      current = backwards ? current.getPrev() : current.getNext()
+    }
+  }
+
+  /**
+   * Reads the whole list, following the iteration mode like {@link DLinkedList.walk}, and yields each value
+   * with its index and the layout cell it was read from. Unlike walk, it never asks the layout for nodes.
+   * @param backwards
+   */
+  private * scan(backwards: boolean = false): IterableIterator<[T, number, any]> {
+    let index = backwards ? this.length - 1 : 0
+    let cells = this.chain.cells(index, backwards)
+    if (this.iteration === 'snapshot') {
+      cells = Array.from(cells)[Symbol.iterator]()
+    }
+    let expected = this.modificationCount
+    for (let cell of cells) {
+      yield [this.chain.read(cell), index, cell]
+      if (this.iteration === 'fail-fast' && this.modificationCount !== expected) {
+        throw new ConcurrentModificationError()
+      }
+      index += backwards ? -1 : 1
+    }
+  }
+
+  /**
+   * Resolves negative indexes and verifies index falls within 0..upper.
+   * @param index
+   * @param upper
+   */
+  protected normalizeIndex(index: number, upper: number): number {
+    let i = index < 0 ? this.length + index : index
+    if (!Number.isInteger(index) || i < 0 || i > upper) {
+      throw new RangeError(`Index ${index} is out of bounds for a list of length ${this.length}.`)
+    }
+    return i
+  }
+
+  /**
+   * Creates an array from the values in list.
+   * If values are plain objects they will be deeply cloned.
+   *
+   *
+   * ```
+   * const objs = [{a: 1}, {a: 2}]
+   * const dll = DLinkedList.fromArray(objs)
+   *
+   * let cloned = dll.toArray() // [{a: 1}, {a: 2}]
+   * cloned[0].a = 100
+   * cloned[0].b = 200
+   * cloned // [{a: 100}, {a: 200}]
+   * objs // [{a: 1}, {a: 2}]
+   * dll.toArray() // [{a: 1}, {a: 2}]
+   *
+   * ```
+   */
+  toArray(): T[] {
+    let results = []
+    for (let cell of this.chain.cells(0, false)) {
+      results.push(this.chain.read(cell))
+    }
+    return results
+  }
+
+  /**
+   * Returns a JSON friendly representation of the list. Called by JSON.stringify.
+   * Codecs convert values JSON cannot represent, such as Dates and Maps, into a form .fromJSON can restore.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3], {cloner: 'deep'})
+   * JSON.stringify(dll) // '{"values":[1,2,3],"options":{"cloner":"deep"}}'
+   * dll.toJSON({codecs: [dateCodec, mapCodec]})
+   * ```
+   *
+   * @param options - Ignored when called by JSON.stringify, which passes a key.
+   */
+  toJSON(options?: SerializeOptions | string): DLinkedListJSON {
+    let codecs = (options && typeof options === 'object') ? options.codecs : []
+    let json: DLinkedListJSON = {values: this.toArray().map(value => encodeValue(value, codecs))}
+    let meta: DLinkedListJSON['options'] = {}
+
+    if (typeof this.cloner === 'string' && this.cloner !== 'plain') {
+      meta.cloner = this.cloner
+    }
+    if (this.freeze) {
+      meta.freeze = true
+    }
+    if (this.proxy) {
+      meta.proxy = true
+    }
+    if (Object.keys(meta).length > 0) {
+      json.options = meta
+    }
+    return json
+  }
+
+  /**
+   * Returns an iterator of newline delimited JSON lines, one per value, from head to tail.
+   * Lines are produced one at a time, so huge lists can be written without building one giant string.
+   *
+   * ```
+   * const out = fs.createWriteStream('list.ndjson')
+   * for (let line of dll.toNDJSON({codecs: [dateCodec]})) { out.write(line) }
+   * ```
+   *
+   * @param options
+   */
+  * toNDJSON(options: SerializeOptions = {}): IterableIterator<string> {
+    for (let value of this.values()) {
+      yield `${JSON.stringify(encodeValue(value, options.codecs))}\n`
+    }
+  }
+
+  /**
+   * Returns an object mode Readable that emits cloned values, from head to tail or in reverse,
+   * and respects backpressure from its consumer.
+   *
+   * ```
+   * dll.toReadable({reverse: true}).pipe(socket)
+   * ```
+   *
+   * @param options
+   */
+  toReadable(options?: ReadableOptions): DLinkedListReadable<T> {
+    return new DLinkedListReadable(this, options)
+  }
+
+  /**
+   * Returns an object mode Writable that appends every chunk written to it to this list.
+   * Its done() method resolves with this list once the stream finishes.
+   *
+   * ```
+   * source.pipe(dll.toWritable()).done().then(list => list.length)
+   * ```
+   */
+  toWritable(): DLinkedListWritable<T> {
+    return new DLinkedListWritable(this)
+  }
+
+  /**
+   * Iterates the cloned list values, from head to tail.
+   * Allows a list to be used with for...of, spread and Array.from.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * [...dll] // [1,2,3]
+   * ```
+   */
+  * [Symbol.iterator](): IterableIterator<T> {
+    yield* this.values()
+  }
+
+  /**
+   * Asynchronously iterates the cloned list values, from head to tail.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * for await (let v of dll) { console.log(v) } // 1,2,3
+   * ```
+   */
+  async * [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    for (let [data] of this.scan()) {
+      yield data
+    }
+  }
+
+  /**
+   * Returns an iterator over the cloned list values, from head to tail.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * Array.from(dll.values()) // [1,2,3]
+   * ```
+   */
+  * values(): IterableIterator<T> {
+    for (let [data] of this.scan()) {
+      yield data
+    }
+  }
+
+  /**
+   * Returns an iterator over the cloned list values, from tail to head.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * Array.from(dll.valuesRight()) // [3,2,1]
+   * ```
+   */
+  * valuesRight(): IterableIterator<T> {
+    for (let [data] of this.scan(true)) {
+      yield data
+    }
+  }
+
+  /**
+   * Alias of {@link DLinkedList.valuesRight}, the list is left as it is. See {@link DLinkedList.reverseInPlace}
+   * to reverse the list itself.
+   */
+  reverse(): IterableIterator<T> {
+    return this.valuesRight()
+  }
+
+  /**
+   * Returns an iterator of [index, value] pairs, from head to tail.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray(['a','b'])
+   * Array.from(dll.entries()) // [[0,'a'],[1,'b']]
    * ```
    */
-  clear(): DLinkedList<T> {
-    this.head_node = null
-    this.tail_node = null
-    this.length = 0
-    return this
+  * entries(): IterableIterator<[number, T]> {
+    for (let [data, index] of this.scan()) {
+      yield [index, data]
+    }
   }
 
   /**
-   * Creates an array from the values in list.
-   * If values are plain objects they will be deeply cloned.
-   *
+   * Returns an iterator over {@link NodeView}s of the list nodes, from head to tail.
    *
    * ```
-   * const objs = [{a: 1}, {a: 2}]
-   * const dll = DLinkedList.fromArray(objs)
-   *
-   * let cloned = dll.toArray() // [{a: 1}, {a: 2}]
-   * cloned[0].a = 100
-   * cloned[0].b = 200
-   * cloned // [{a: 100}, {a: 200}]
-   * objs // [{a: 1}, {a: 2}]
-   * dll.toArray() // [{a: 1}, {a: 2}]
-   *
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * for (let node of dll.nodes()) { node.value } // 1,2,3
    * ```
    */
-  toArray(): T[] {
-    let current = this.head_node;
-    let results = []
-
-    while (current !== null) {
-      results.push(current.getData())
-      current = current.getNext();
+  * nodes(): IterableIterator<NodeView<T>> {
+    for (let current of this.walk()) {
+      yield NodeView.of(current)
     }
-
-    return results
   }
 
   /**
-   * Returns the first {@link Node} predicate function returns truthy for.
+   * Returns a {@link NodeView} of the first node predicate function returns truthy for.
    *
    * ```
    * const dll = DLinkedList.fromArray([1,2,3,4,5])
-   * let node = dll.findNode(v => v === 1) // Node{data: 1, nextNode: Node{}, prevNode: null}
+   * let node = dll.findNode(v => v === 1) // NodeView{value: 1, isHead: true}
    *
    * ```
    *
    * @param predicate
    */
-  findNode(predicate: filterPredicate<T>): Node<T> {
-    let current = this.head_node;
-    while (current !== null) {
-      let data = current.getData()
-      if (predicate(data)) {
-        return current
+  findNode<S extends DeepReadonly<T>>(predicate: filterGuard<T, S>): NodeView<S> | null
+  findNode(predicate: filterPredicate<T>): NodeView<T> | null
+  findNode(predicate: filterPredicate<T>): NodeView<T> | null {
+    return NodeView.of(this.findRawNode(predicate))
+  }
+
+  /**
+   * Returns the first {@link Node} predicate function returns truthy for.
+   * @param predicate
+   */
+  private findRawNode(predicate: filterPredicate<T>): Node<T> | null {
+    for (let [data, index, cell] of this.scan()) {
+      if (predicate(asReadonly(data), index, this)) {
+        return this.chain.nodeOf(cell, index)
       }
-      current = current.getNext();
     }
     return null;
   }
@@ -446,9 +2353,28 @@ export class DLinkedList<T> {
    *
    * @param predicate
    */
+  find<S extends DeepReadonly<T>>(predicate: filterGuard<T, S>): S | null
+  find(predicate: filterPredicate<T>): T | null
   find(predicate: filterPredicate<T>): T | null {
-    let node = this.findNode(predicate)
-    return node ? node.getData() : null
+    for (let [data, index] of this.scan()) {
+      if (predicate(asReadonly(data), index, this)) {
+        return data
+      }
+    }
+    return null
+  }
+
+  /**
+   * Returns a {@link LazySeq} over the list values. Chained operators run fused in a single walk of the nodes,
+   * and nothing is read until a terminal operation such as .toList or .first runs.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.lazy().map(v => v * 2).filter(v => v > 4).take(2).toList() // [6,8]
+   * ```
+   */
+  lazy(): LazySeq<T> {
+    return LazySeq.of(this, this.storageOptions())
   }
 
   /**
@@ -464,17 +2390,15 @@ export class DLinkedList<T> {
    * @param iteratee
    */
   map<V>(iteratee?: mapIteratee<T, V>): DLinkedList<V> {
-    let current = this.head_node;
     let results = []
 
     let mapFn = iteratee ? iteratee : ident => ident
 
-    while (current !== null) { //!== null fails
-      results.push(mapFn(current.getData()))
-      current = current.getNext();
+    for (let [data, index] of this.scan()) {
+      results.push(mapFn(asReadonly(data), index, this))
     }
 
-    return DLinkedList.fromArray(results)
+    return this.derive(results)
   }
 
   /**
@@ -490,23 +2414,23 @@ export class DLinkedList<T> {
    * @param iteratee
    */
   mapRight<V>(iteratee?: mapIteratee<T, V>): DLinkedList<V> {
-    let current = this.tail_node
     let results = []
 
     let mapFn = iteratee ? iteratee : ident => ident
 
-    while (current !== null) {
-      results.push(mapFn(current.getData()))
-      current = current.getPrev()
+    for (let [data, index] of this.scan(true)) {
+      results.push(mapFn(asReadonly(data), index, this))
     }
 
-    return DLinkedList.fromArray(results)
+    return this.derive(results)
   }
 
   /**
    * Asynchronously returns a new DLinkedList from the values resolved by iteratee function.
    *
-   * Iteratees are dispatched all at once, so use caution with large lists.
+   * Iteratees are dispatched all at once unless options.concurrency limits how many may be pending.
+   * Results keep list order regardless of concurrency. If options.signal aborts, the returned
+   * promise rejects with an AbortError and no further iteratees are dispatched.
    * If the list values are plain objects, deep clones will be supplied to iteratee.
    *
    * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
@@ -519,25 +2443,21 @@ export class DLinkedList<T> {
    *  })
    * // results === [1, 4, 9, 16, 25] 5 seconds later, not 25.
    *
+   * let limited = await dll.asyncMap(fetchJob, {concurrency: 2, signal: controller.signal})
+   *
    * @param iteratee
+   * @param options
    */
-  async asyncMap<V>(iteratee: asyncMapIteratee<T, V>): Promise<DLinkedList<V>> {
-    let current = this.head_node
-    let results = []
-    while (current !== null) {
-      results.push(Promise.resolve(iteratee(current.getData())))
-      current = current.getNext()
-    }
-
-    let unwrapped = await Promise.all(results)
-    return DLinkedList.fromArray(unwrapped)
-
+  async asyncMap<V>(iteratee: asyncMapIteratee<T, V>, options?: AsyncOptions): Promise<DLinkedList<V>> {
+    let unwrapped = await runConcurrent(this.toArray(), (value, index) => iteratee(asReadonly(value), index, this), options)
+    return this.derive(unwrapped)
   }
 
   /**
    * Asynchronously returns a new DLinkedList from the values resolved by iteratee function, in reverse order.
    *
-   * Iteratees are dispatched all at once, so use caution with large lists.
+   * Iteratees are dispatched all at once unless options.concurrency limits how many may be pending.
+   * See {@link DLinkedList.asyncMap} for option details.
    * If the list values are plain objects, deep clones will be supplied to iteratee.
    *
    * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
@@ -551,17 +2471,115 @@ export class DLinkedList<T> {
    * // results === [1, 4, 9, 16, 25] 5 seconds later, not 25
    *
    * @param iteratee
+   * @param options
    */
-  async asyncMapRight<V>(iteratee: asyncMapIteratee<T, V>): Promise<DLinkedList<V>> {
-    let current = this.tail_node
-    let results = []
-    while (current !== null) {
-      results.push(Promise.resolve(iteratee(current.getData())))
-      current = current.getPrev()
-    }
+  async asyncMapRight<V>(iteratee: asyncMapIteratee<T, V>, options?: AsyncOptions): Promise<DLinkedList<V>> {
+    let last = this.length - 1
+    let unwrapped = await runConcurrent(Array.from(this.valuesRight()), (value, index) => {
+      return iteratee(asReadonly(value), last - index, this)
+    }, options)
+    return this.derive(unwrapped)
+  }
+
+  /**
+   * Asynchronously returns a new DLinkedList of the values predicate resolves truthy for, in list order.
+   * Accepts the same options as {@link DLinkedList.asyncMap}.
+   *
+   * ```
+   * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
+   * let results = await dll.asyncFilter(n => Promise.resolve(n > 2), {concurrency: 2})
+   * // results === [3, 4, 5]
+   * ```
+   *
+   * @param predicate
+   * @param options
+   */
+  async asyncFilter(predicate: asyncFilterPredicate<T>, options?: AsyncOptions): Promise<DLinkedList<T>> {
+    let values = this.toArray()
+    let matches = await runConcurrent(values, (value, index) => predicate(asReadonly(value), index, this), options)
+    return this.derive(values.filter((value, index) => matches[index]))
+  }
+
+  /**
+   * Asynchronously runs iteratee with the cloned value found in each node.
+   * Accepts the same options as {@link DLinkedList.asyncMap}.
+   *
+   * ```
+   * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
+   * await dll.asyncEach(n => save(n), {concurrency: 2})
+   * ```
+   *
+   * @param iteratee
+   * @param options
+   */
+  async asyncEach(iteratee: asyncEachIteratee<T>, options?: AsyncOptions): Promise<DLinkedList<T>> {
+    await runConcurrent(this.toArray(), (value, index) => iteratee(asReadonly(value), index, this), options)
+    return this
+  }
+
+  /**
+   * Asynchronously returns the first value, in list order, predicate resolves truthy for.
+   * Once a match is found, no predicates for later values are dispatched.
+   * Accepts the same options as {@link DLinkedList.asyncMap}.
+   *
+   * ```
+   * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
+   * let result = await dll.asyncFind(n => Promise.resolve(n > 2)) // 3
+   * ```
+   *
+   * @param predicate
+   * @param options
+   */
+  async asyncFind(predicate: asyncFilterPredicate<T>, options?: AsyncOptions): Promise<T | null> {
+    let values = this.toArray()
+    let matches = await runConcurrent(values, (value, index) => {
+      return predicate(asReadonly(value), index, this)
+    }, options, (i, match) => !!match)
+    let index = matches.findIndex(match => !!match)
+    return index === -1 ? null : values[index]
+  }
+
+  /**
+   * Asynchronously resolves true if predicate resolves truthy for any value.
+   * Stops dispatching predicates once one resolves truthy.
+   * Accepts the same options as {@link DLinkedList.asyncMap}.
+   *
+   * ```
+   * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
+   * await dll.asyncSome(n => Promise.resolve(n > 4)) // true
+   * ```
+   *
+   * @param predicate
+   * @param options
+   */
+  async asyncSome(predicate: asyncFilterPredicate<T>, options?: AsyncOptions): Promise<boolean> {
+    let matches = await runConcurrent(this.toArray(), (value, index) => {
+      return predicate(asReadonly(value), index, this)
+    }, options, (i, match) => !!match)
+    return matches.some(match => !!match)
+  }
 
-    let unwrapped = await Promise.all(results)
-    return DLinkedList.fromArray(unwrapped)
+  /**
+   * Asynchronously resolves true if predicate resolves truthy for every value.
+   * Stops dispatching predicates once one resolves falsy.
+   * Accepts the same options as {@link DLinkedList.asyncMap}.
+   *
+   * ```
+   * let dll = DLinkedList.fromArray<number>([1,2,3,4,5])
+   * await dll.asyncEvery(n => Promise.resolve(n > 0)) // true
+   * ```
+   *
+   * @param predicate
+   * @param options
+   */
+  async asyncEvery(predicate: asyncFilterPredicate<T>, options?: AsyncOptions): Promise<boolean> {
+    let values = this.toArray()
+    let failed = false
+    await runConcurrent(values, (value, index) => predicate(asReadonly(value), index, this), options, (i, match) => {
+      failed = failed || !match
+      return !match
+    })
+    return !failed
   }
 
   /**
@@ -577,11 +2595,8 @@ export class DLinkedList<T> {
    * @param iteratee
    */
   each(iteratee: eachIteratee<T>): DLinkedList<T> {
-    let current = this.head_node;
-
-    while (current !== null) { //!== null fails
-      iteratee(current.getData())
-      current = current.getNext();
+    for (let [data, index] of this.scan()) {
+      iteratee(asReadonly(data), index, this)
     }
 
     return this
@@ -600,11 +2615,8 @@ export class DLinkedList<T> {
    * @param iteratee
    */
   eachRight(iteratee: eachIteratee<T>): DLinkedList<T> {
-    let current = this.tail_node
-
-    while (current !== null) {
-      iteratee(current.getData())
-      current = current.getPrev()
+    for (let [data, index] of this.scan(true)) {
+      iteratee(asReadonly(data), index, this)
     }
 
     return this
@@ -620,20 +2632,301 @@ export class DLinkedList<T> {
    *
    * ```
    *
+   * A type guard narrows the type of the returned list.
+   *
+   * ```
+   * const shapes = DLinkedList.fromArray<Shape>([circle, square])
+   * let circles = shapes.filter(isCircle) // DLinkedList<Circle>
+   * ```
+   *
    * @param predicate
    */
-
+  filter<S extends DeepReadonly<T>>(predicate: filterGuard<T, S>): DLinkedList<S>
+  filter(predicate: filterPredicate<T>): DLinkedList<T>
   filter(predicate: filterPredicate<T>): DLinkedList<T> {
-    let current = this.head_node
     let results = []
-    while (current !== null) {
-      let data = current.getData()
-      if (predicate(data)) {
+    for (let [data, index] of this.scan()) {
+      if (predicate(asReadonly(data), index, this)) {
+        results.push(data)
+      }
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Returns the values of this list without repeats, keeping the first of each.
+   * Values are compared with SameValueZero, so use .uniqBy for objects.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,1,3,2])
+   * dll.uniq() // [1,2,3]
+   * ```
+   */
+  uniq(): DLinkedList<T> {
+    return this.uniqBy(ident => ident)
+  }
+
+  /**
+   * Returns the values of this list without repeats, keeping the first value for each key iteratee returns.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 1}])
+   * dll.uniqBy(v => v.id) // [{id: 1}, {id: 2}]
+   * ```
+   *
+   * @param iteratee
+   */
+  uniqBy(iteratee: mapIteratee<T, any>): DLinkedList<T> {
+    let seen = new Set()
+    return this.filter((data, index, list) => {
+      let key = iteratee(data, index, list)
+      if (seen.has(key)) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+  }
+
+  /**
+   * Returns a Map from each key iteratee returns to a new list of the values that produced it, in list order.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.groupBy(v => v % 2 ? 'odd' : 'even') // Map {'odd' => [1,3,5], 'even' => [2,4]}
+   * ```
+   *
+   * @param iteratee
+   */
+  groupBy<K>(iteratee: mapIteratee<T, K>): Map<K, DLinkedList<T>> {
+    let groups = new Map<K, T[]>()
+    for (let [data, index] of this.scan()) {
+      let key = iteratee(asReadonly(data), index, this)
+      if (groups.has(key)) {
+        groups.get(key).push(data)
+      } else {
+        groups.set(key, [data])
+      }
+    }
+    let lists = new Map<K, DLinkedList<T>>()
+    groups.forEach((values, key) => lists.set(key, this.derive(values)))
+    return lists
+  }
+
+  /**
+   * Splits the values into two new lists, those predicate returns truthy for and the rest.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * const [small, large] = dll.partition(v => v < 3) // [1,2], [3,4,5]
+   * ```
+   *
+   * @param predicate
+   */
+  partition<S extends DeepReadonly<T>>(predicate: filterGuard<T, S>): [DLinkedList<S>, DLinkedList<Exclude<T, S>>]
+  partition(predicate: filterPredicate<T>): [DLinkedList<T>, DLinkedList<T>]
+  partition(predicate: filterPredicate<T>): [DLinkedList<T>, DLinkedList<T>] {
+    let pass = []
+    let fail = []
+    for (let [data, index] of this.scan()) {
+      if (predicate(asReadonly(data), index, this)) {
+        pass.push(data)
+      } else {
+        fail.push(data)
+      }
+    }
+    return [this.derive(pass), this.derive(fail)]
+  }
+
+  /**
+   * Returns a new list of arrays holding size values each. The last array holds whatever is left.
+   * Throws a RangeError unless size is a positive integer.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3,4,5])
+   * dll.chunk(2) // [[1,2],[3,4],[5]]
+   * ```
+   *
+   * @param size
+   */
+  chunk(size: number): DLinkedList<T[]> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`Chunk size must be a positive integer, got ${size}.`)
+    }
+    let chunks: T[][] = []
+    let chunk: T[] = []
+    for (let [data] of this.scan()) {
+      chunk.push(data)
+      if (chunk.length === size) {
+        chunks.push(chunk)
+        chunk = []
+      }
+    }
+    if (chunk.length > 0) {
+      chunks.push(chunk)
+    }
+    return this.derive(chunks)
+  }
+
+  /**
+   * Returns a new list pairing each value with the value at the same position of other.
+   * Stops at the end of whichever is shorter.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.zip(['a','b']) // [[1,'a'],[2,'b']]
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   */
+  zip<V>(other: Iterable<V>): DLinkedList<[T, V]> {
+    return this.zipWith(other, (a, b): [T, V] => [asMutable<T>(a), b])
+  }
+
+  /**
+   * Returns a new list of the values iteratee returns for each value and the value at the same position of other.
+   * Stops at the end of whichever is shorter.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2,3])
+   * dll.zipWith([10,20,30], (a, b) => a + b) // [11,22,33]
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   * @param iteratee
+   */
+  zipWith<V, R>(other: Iterable<V>, iteratee: (a: DeepReadonly<T>, b: V) => R): DLinkedList<R> {
+    let results: R[] = []
+    let values = this.scan()
+    for (let value of other) {
+      let step = values.next()
+      if (step.done) {
+        break
+      }
+      results.push(iteratee(asReadonly(step.value[0]), value))
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Returns a new list of every value of the iterables iteratee returns, in order.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([1,2])
+   * dll.flatMap(v => [v, v * 10]) // [1,10,2,20]
+   * ```
+   *
+   * @param iteratee
+   */
+  flatMap<V>(iteratee: mapIteratee<T, Iterable<V>>): DLinkedList<V> {
+    let results: V[] = []
+    for (let [data, index] of this.scan()) {
+      for (let value of iteratee(asReadonly(data), index, this)) {
+        results.push(value)
+      }
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Returns a new list with values that are arrays, lists or other iterables replaced by their values,
+   * one level deep. Strings and other values are kept as they are.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([[1,2],3,[4,[5]]])
+   * dll.flatten() // [1,2,3,4,[5]]
+   * ```
+   */
+  flatten(): DLinkedList<Flattened<T>> {
+    let results: unknown[] = []
+    for (let [data] of this.scan()) {
+      if (isIterableObject(data)) {
+        results.push(...Array.from(data))
+      } else {
         results.push(data)
       }
-      current = current.getNext()
     }
-    return DLinkedList.fromArray(results)
+    // Only iterable values were spread, as the return type says, but TypeScript cannot narrow T to match it.
+    return this.derive(results as Flattened<T>[])
+  }
+
+  /**
+   * Returns a new list of the values of this list whose key, as returned by iteratee, is also the key of a value
+   * of other. Repeats are dropped, keeping the first value for each key.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}])
+   * dll.intersectionBy([{id: 3}, {id: 1}], v => v.id) // [{id: 1}, {id: 3}]
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   * @param iteratee - Defaults to the value itself.
+   */
+  intersectionBy(other: Iterable<T>, iteratee: (value: DeepReadonly<T>) => any = ident => ident): DLinkedList<T> {
+    let keys = new Set(Array.from(other, value => iteratee(asReadonly(value))))
+    let seen = new Set()
+    return this.filter((data) => {
+      let key = iteratee(data)
+      if (!keys.has(key) || seen.has(key)) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+  }
+
+  /**
+   * Returns a new list of the values of this list whose key, as returned by iteratee, is not the key of any value
+   * of other.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}])
+   * dll.differenceBy([{id: 2}], v => v.id) // [{id: 1}, {id: 3}]
+   * ```
+   *
+   * @param other - A list or any other iterable.
+   * @param iteratee - Defaults to the value itself.
+   */
+  differenceBy(other: Iterable<T>, iteratee: (value: DeepReadonly<T>) => any = ident => ident): DLinkedList<T> {
+    let keys = new Set(Array.from(other, value => iteratee(asReadonly(value))))
+    return this.filter(data => !keys.has(iteratee(data)))
+  }
+
+  /**
+   * Returns a Map from each key iteratee returns to the number of values that produced it.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray(['one','two','three'])
+   * dll.countBy(v => v.length) // Map {3 => 2, 5 => 1}
+   * ```
+   *
+   * @param iteratee
+   */
+  countBy<K>(iteratee: mapIteratee<T, K>): Map<K, number> {
+    let counts = new Map<K, number>()
+    for (let [data, index] of this.scan()) {
+      let key = iteratee(asReadonly(data), index, this)
+      counts.set(key, (counts.get(key) || 0) + 1)
+    }
+    return counts
+  }
+
+  /**
+   * Returns a Map from each key iteratee returns to the value that produced it. Later values win.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([{id: 1, v: 'a'}, {id: 2, v: 'b'}])
+   * dll.keyBy(v => v.id) // Map {1 => {id: 1, v: 'a'}, 2 => {id: 2, v: 'b'}}
+   * ```
+   *
+   * @param iteratee
+   */
+  keyBy<K>(iteratee: mapIteratee<T, K>): Map<K, T> {
+    let keyed = new Map<K, T>()
+    for (let [data, index] of this.scan()) {
+      keyed.set(iteratee(asReadonly(data), index, this), data)
+    }
+    return keyed
   }
 
   /**
@@ -641,7 +2934,7 @@ export class DLinkedList<T> {
    *
    * ```
    * let dll = DLinkedList.fromArray([1,2,3,4,5])
-   * let results = dll.reduce((v, acc) => {
+   * let results = dll.reduce((acc, v) => {
    *   acc += v
    *   return acc
    * }, 0)
@@ -653,13 +2946,10 @@ export class DLinkedList<T> {
    * @param iteratee
    * @param accumulator
    */
-  reduce<V>(iteratee: reduceIteratee<T, V>, accumulator: any) {
+  reduce<A>(iteratee: reduceIteratee<A, T>, accumulator: A): A {
     let acc = accumulator
-    let current = this.head_node;
-    while (current !== null) {
-      let data = current.getData()
-      acc = iteratee(acc, data)
-      current = current.getNext();
+    for (let [data, index] of this.scan()) {
+      acc = iteratee(acc, asReadonly(data), index, this)
     }
 
     return acc
@@ -670,7 +2960,7 @@ export class DLinkedList<T> {
    *
    * ```
    * let dll = DLinkedList.fromArray([1,2,3,4,5])
-   * let results = dll.reduceRight((v, acc) => {
+   * let results = dll.reduceRight((acc, v) => {
    *    acc -= v
    *    return acc
    * }, 15)
@@ -680,13 +2970,10 @@ export class DLinkedList<T> {
    * @param iteratee
    * @param accumulator
    */
-  reduceRight<V>(iteratee: reduceIteratee<T, V>, accumulator: any) {
+  reduceRight<A>(iteratee: reduceIteratee<A, T>, accumulator: A): A {
     let acc = accumulator
-    let current = this.tail_node;
-    while (current !== null) {
-      let data = current.getData()
-      acc = iteratee(acc, data)
-      current = current.getPrev();
+    for (let [data, index] of this.scan(true)) {
+      acc = iteratee(acc, asReadonly(data), index, this)
     }
 
     return acc
@@ -709,19 +2996,26 @@ export class DLinkedList<T> {
    * // results === 15 - 25 seconds later, not 5
    * ```
    *
+   * If options.signal aborts, the returned promise rejects with an AbortError before the next step.
+   *
    * @param iteratee
    * @param accumulator
+   * @param options
    */
-  async asyncReduce<A>(iteratee: asyncReduceIteratee<A, T>, accumulator: any): Promise<A> {
+  async asyncReduce<A>(iteratee: asyncReduceIteratee<A, T>, accumulator: A, options: AbortOptions = {}): Promise<A> {
     let acc = accumulator
-    let stepper = async (node: Node<T>) => {
-      if(node === null) {return acc}
-      acc = await Promise.resolve(iteratee(acc, node.getData()))
-
-      return stepper(node.getNext())
+    let values = this.scan()
+    let stepper = async () => {
+      throwIfAborted(options.signal)
+      let step = values.next()
+      if(step.done) {return acc}
+      let [data, index] = step.value
+      acc = await Promise.resolve(iteratee(acc, asReadonly(data), index, this))
+
+      return stepper()
     }
 
-    return stepper(this.head_node)
+    return stepper()
   }
 
   /**
@@ -741,19 +3035,26 @@ export class DLinkedList<T> {
    *
    * ```
    *
+   * If options.signal aborts, the returned promise rejects with an AbortError before the next step.
+   *
    * @param iteratee
    * @param accumulator
+   * @param options
    */
-  async asyncReduceRight<A>(iteratee: asyncReduceIteratee<A, T>, accumulator: any): Promise<A> {
+  async asyncReduceRight<A>(iteratee: asyncReduceIteratee<A, T>, accumulator: A, options: AbortOptions = {}): Promise<A> {
     let acc = accumulator
-    let stepper = async (node: Node<T>) => {
+    let values = this.scan(true)
+    let stepper = async () => {
+      throwIfAborted(options.signal)
 
-      if(node === null) {return acc}
-      acc = await Promise.resolve(iteratee(acc, node.getData()))
+      let step = values.next()
+      if(step.done) {return acc}
+      let [data, index] = step.value
+      acc = await Promise.resolve(iteratee(acc, asReadonly(data), index, this))
 
-      return stepper(node.getPrev())
+      return stepper()
     }
 
-    return stepper(this.tail_node)
+    return stepper()
   }
 }
\ No newline at end of file
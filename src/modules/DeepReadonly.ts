@@ -0,0 +1,48 @@
+/**
+ * @file DeepReadonly
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+/**
+ * Deeply readonly view of T, the type of values handed to iteratees and predicates.
+ * Arrays, Maps, Sets and objects become readonly all the way down, functions and Dates are left as they are.
+ *
+ *  ```
+ *  let user: DeepReadonly<{name: string, tags: string[]}> = {name: 'jim', tags: ['a']}
+ *  user.tags.push('b') // Type error
+ *  ```
+ */
+export type DeepReadonly<T> =
+  T extends (...args: any[]) => any ? T :
+  T extends Date ? T :
+  T extends ReadonlyArray<infer U> ? DeepReadonlyArray<U> :
+  T extends ReadonlyMap<infer K, infer V> ? DeepReadonlyMap<K, V> :
+  T extends ReadonlySet<infer U> ? DeepReadonlySet<U> :
+  T extends object ? DeepReadonlyObject<T> :
+  T
+
+export interface DeepReadonlyArray<T> extends ReadonlyArray<DeepReadonly<T>> {}
+
+export interface DeepReadonlyMap<K, V> extends ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>> {}
+
+export interface DeepReadonlySet<T> extends ReadonlySet<DeepReadonly<T>> {}
+
+export type DeepReadonlyObject<T> = {readonly [P in keyof T]: DeepReadonly<T[P]>}
+
+/**
+ * Types a value as it is handed to a callback. Nothing is frozen at runtime.
+ * TypeScript cannot relate a generic T to DeepReadonly<T>, so this and {@link asMutable} are the only places
+ * that cast between the two.
+ * @param value
+ */
+export const asReadonly = <T>(value: T): DeepReadonly<T> => value as unknown as DeepReadonly<T>
+
+/**
+ * Types a value handed to a callback as the list value it was read from, the inverse of {@link asReadonly}.
+ * Only for values the list stores again, such as the pairs of .zip, never for values handed back to the caller
+ * to change.
+ * @param value
+ */
+export const asMutable = <T>(value: DeepReadonly<T>): T => value as unknown as T
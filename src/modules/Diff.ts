@@ -0,0 +1,400 @@
+/**
+ * @file Diff
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import isPlainObject from 'lodash.isplainobject'
+
+/**
+ * Version written to every {@link Patch}. Patches of any other version are rejected by .applyPatch.
+ */
+export const PATCH_VERSION = 1
+
+/**
+ * Function signature accepted by the comparator option of .equals and .diff, returns true when a and b are equal.
+ */
+export type equalityComparator<T> = (a: T, b: T) => boolean
+
+/**
+ * Options accepted by .equals and .diff
+ */
+export interface EqualsOptions<T> {
+  /**
+   * Compare values structurally with {@link deepEqual} instead of by identity. Defaults to false.
+   */
+  deep?: boolean
+
+  /**
+   * Decides when two values are equal, overrides deep.
+   */
+  comparator?: equalityComparator<T>
+}
+
+/**
+ * A single step of a {@link Patch}. Indexes refer to the list as it is when the step is applied,
+ * after every step before it.
+ *
+ * - `'insert'` inserts value at index.
+ * - `'remove'` removes the value at index.
+ * - `'move'` moves the value at from so it ends up at to.
+ * - `'update'` replaces the value at index with value.
+ */
+export type PatchOperation<T> =
+  {op: 'insert', index: number, value: T} |
+  {op: 'remove', index: number} |
+  {op: 'move', from: number, to: number} |
+  {op: 'update', index: number, value: T}
+
+/**
+ * An edit script produced by .diff and replayed by .applyPatch. Plain JSON as long as the values are.
+ *
+ *  ```
+ *  {"version": 1, "length": 3, "ops": [{"op": "remove", "index": 0}, {"op": "insert", "index": 2, "value": 4}]}
+ *  ```
+ */
+export interface Patch<T> {
+  version: number
+
+  /**
+   * Length of the list the patch was made from.
+   */
+  length: number
+
+  ops: PatchOperation<T>[]
+}
+
+/**
+ * Thrown when a patch cannot be applied, because of its version, its shape or a list it was not made for.
+ */
+export class PatchError extends Error {
+  readonly name: string = 'PatchError'
+
+  constructor(message: string) {
+    super(message)
+  }
+}
+
+/**
+ * Structural equality. Primitives are compared with SameValueZero, Dates by time, RegExps by source and flags,
+ * and arrays, Maps, Sets and plain objects by their contents. Anything else is compared by identity.
+ *
+ * ```
+ * deepEqual({a: [1, {b: 2}]}, {a: [1, {b: 2}]}) // true
+ * ```
+ *
+ * @param a
+ * @param b
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b || (a !== a && b !== b)) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false
+  }
+  if (a instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  if (a instanceof RegExp) {
+    return a.source === b.source && a.flags === b.flags
+  }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((value, i) => deepEqual(value, b[i]))
+  }
+  if (a instanceof Map) {
+    if (a.size !== b.size) {
+      return false
+    }
+    for (let [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) {
+        return false
+      }
+    }
+    return true
+  }
+  if (a instanceof Set) {
+    if (a.size !== b.size) {
+      return false
+    }
+    let rest = Array.from(b)
+    for (let value of a) {
+      let i = rest.findIndex(other => deepEqual(value, other))
+      if (i === -1) {
+        return false
+      }
+      rest.splice(i, 1)
+    }
+    return true
+  }
+  if (isPlainObject(a)) {
+    let keys = Object.keys(a)
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+  }
+  return false
+}
+
+/**
+ * Default equality of .equals and .diff, SameValueZero. Map keys compare the same way.
+ * @param a
+ * @param b
+ */
+const sameValueZero = (a: any, b: any): boolean => a === b || (a !== a && b !== b)
+
+/**
+ * Returns the equality options resolve to.
+ * @param options
+ */
+export function resolveEquality<T>(options: EqualsOptions<T> = {}): equalityComparator<T> {
+  if (options.comparator) {
+    return options.comparator
+  }
+  return options.deep ? deepEqual : sameValueZero
+}
+
+/**
+ * Groups the indexes of from that are not used yet by value, each group highest first so pop returns the lowest.
+ * @param from
+ * @param used
+ */
+const unusedIndexes = <T>(from: T[], used: boolean[]): Map<T, number[]> => {
+  let indexes = new Map<T, number[]>()
+  for (let x = from.length - 1; x >= 0; x--) {
+    if (used[x]) {
+      continue
+    }
+    let group = indexes.get(from[x])
+    if (group) {
+      group.push(x)
+    } else {
+      indexes.set(from[x], [x])
+    }
+  }
+  return indexes
+}
+
+/**
+ * Returns a minimal edit script that turns from into to.
+ *
+ * Values kept in place are found with Myers' O(ND) longest common subsequence search. Of the rest,
+ * a value removed in one place and inserted elsewhere becomes a move, and a removal and an insert
+ * between the same kept values become an update. Moves are paired through a Map of indexes under the default
+ * equality, deep and custom comparators scan the unused values instead.
+ *
+ * @param from
+ * @param to
+ * @param equals
+ */
+export function diffValues<T>(from: T[], to: T[], equals: equalityComparator<T>): Patch<T> {
+  // For every value of to, the index in from it is taken from, -1 for inserts.
+  let source: number[] = to.map(() => -1)
+  // Values of from that are kept, moved or updated rather than removed.
+  let used: boolean[] = from.map(() => false)
+  let kept: boolean[] = from.map(() => false)
+
+  let matches = commonSubsequence(from, to, equals)
+  matches.forEach(([x, y]) => {
+    source[y] = x
+    used[x] = true
+    kept[x] = true
+  })
+
+  let unused = equals === sameValueZero ? unusedIndexes(from, used) : null
+  to.forEach((value, y) => {
+    if (source[y] !== -1) {
+      return
+    }
+    let x = -1
+    if (unused) {
+      let group = unused.get(value)
+      x = group && group.length > 0 ? group.pop() : -1
+    } else {
+      x = from.findIndex((candidate, i) => !used[i] && equals(candidate, value))
+    }
+    if (x !== -1) {
+      source[y] = x
+      used[x] = true
+    }
+  })
+
+  let updates: number[] = []
+  let anchors: [number, number][] = [[-1, -1], ...matches, [from.length, to.length]]
+  for (let i = 1; i < anchors.length; i++) {
+    let x = anchors[i - 1][0] + 1
+    let y = anchors[i - 1][1] + 1
+    while (x < anchors[i][0] && y < anchors[i][1]) {
+      if (used[x]) {
+        x += 1
+      } else if (source[y] !== -1) {
+        y += 1
+      } else {
+        source[y] = x
+        used[x] = true
+        kept[x] = true
+        updates.push(y)
+        x += 1
+        y += 1
+      }
+    }
+  }
+
+  let ops: PatchOperation<T>[] = []
+  // Working copy of the list, holding indexes into from.
+  let working: number[] = []
+  for (let x = from.length - 1; x >= 0; x--) {
+    if (!used[x]) {
+      ops.push({op: 'remove', index: x})
+    }
+  }
+  // Position of each index of from in working, kept up to date as values move.
+  let position: number[] = from.map(() => -1)
+  from.forEach((value, x) => {
+    if (used[x]) {
+      position[x] = working.length
+      working.push(x)
+    }
+  })
+  updates.forEach((y) => {
+    ops.push({op: 'update', index: position[source[y]], value: to[y]})
+  })
+
+  // Each moved value goes directly after the value that precedes it in to, ignoring inserts.
+  let previous = -1
+  to.forEach((value, y) => {
+    let x = source[y]
+    if (x === -1) {
+      return
+    }
+    if (!kept[x]) {
+      let at = position[x]
+      working.splice(at, 1)
+      let target = previous === -1 ? 0 : position[previous] + (position[previous] > at ? 0 : 1)
+      working.splice(target, 0, x)
+      for (let i = Math.min(at, target); i <= Math.max(at, target); i++) {
+        position[working[i]] = i
+      }
+      if (at !== target) {
+        ops.push({op: 'move', from: at, to: target})
+      }
+    }
+    previous = x
+  })
+
+  to.forEach((value, y) => {
+    if (source[y] === -1) {
+      ops.push({op: 'insert', index: y, value})
+    }
+  })
+
+  return {version: PATCH_VERSION, length: from.length, ops}
+}
+
+/**
+ * Checks that patch is a {@link Patch} of the supported version made for a list of length, throws a
+ * {@link PatchError} otherwise.
+ * @param patch
+ * @param length
+ */
+export function checkPatch(patch: Patch<any>, length: number): void {
+  if (!patch || !Array.isArray(patch.ops)) {
+    throw new PatchError('Patch must be an object with an ops array.')
+  }
+  if (patch.version !== PATCH_VERSION) {
+    throw new PatchError(`Unsupported patch version ${patch.version}, expected ${PATCH_VERSION}.`)
+  }
+  if (patch.length !== length) {
+    throw new PatchError(`Patch was made for a list of length ${patch.length}, not ${length}.`)
+  }
+}
+
+/**
+ * Returns the [from, to] index pairs of a longest common subsequence, in increasing order, using the linear space
+ * variant of Myers' algorithm: the middle snake of the shortest edit script is found by searching from both ends,
+ * then the parts on either side of it are solved the same way.
+ * @param from
+ * @param to
+ * @param equals
+ */
+function commonSubsequence<T>(from: T[], to: T[], equals: equalityComparator<T>): [number, number][] {
+  let matches: [number, number][] = []
+  let size = from.length + to.length + 3
+  let forward: number[] = new Array(size).fill(0)
+  let backward: number[] = new Array(size).fill(0)
+
+  let solve = (x0: number, x1: number, y0: number, y1: number) => {
+    let suffix: [number, number][] = []
+    while (x0 < x1 && y0 < y1 && equals(from[x0], to[y0])) {
+      matches.push([x0, y0])
+      x0 += 1
+      y0 += 1
+    }
+    while (x0 < x1 && y0 < y1 && equals(from[x1 - 1], to[y1 - 1])) {
+      x1 -= 1
+      y1 -= 1
+      suffix.push([x1, y1])
+    }
+    if (x0 < x1 && y0 < y1) {
+      let [startX, startY, endX, endY] = middleSnake(x0, x1, y0, y1)
+      solve(x0, startX, y0, startY)
+      for (let x = startX, y = startY; x < endX; x++, y++) {
+        matches.push([x, y])
+      }
+      solve(endX, x1, endY, y1)
+    }
+    matches.push(...suffix.reverse())
+  }
+
+  // Returns the start and end of the middle snake, searching forward from (x0, y0) and backward from (x1, y1)
+  // until the searches overlap. Both tables are indexed by diagonal plus offset.
+  let middleSnake = (x0: number, x1: number, y0: number, y1: number): [number, number, number, number] => {
+    let n = x1 - x0
+    let m = y1 - y0
+    let delta = n - m
+    let odd = (delta & 1) === 1
+    let offset = Math.ceil((n + m) / 2) + 1
+    forward[offset + 1] = 0
+    backward[offset + 1] = 0
+    for (let d = 0; d <= offset; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1
+        let y = x - k
+        let startX = x
+        let startY = y
+        while (x < n && y < m && equals(from[x0 + x], to[y0 + y])) {
+          x += 1
+          y += 1
+        }
+        forward[offset + k] = x
+        if (odd && delta - k >= 1 - d && delta - k <= d - 1 && x + backward[offset + delta - k] >= n) {
+          return [x0 + startX, y0 + startY, x0 + x, y0 + y]
+        }
+      }
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1
+        let y = x - k
+        let startX = x
+        let startY = y
+        while (x < n && y < m && equals(from[x1 - 1 - x], to[y1 - 1 - y])) {
+          x += 1
+          y += 1
+        }
+        backward[offset + k] = x
+        if (!odd && delta - k >= -d && delta - k <= d && x + forward[offset + delta - k] >= n) {
+          return [x1 - x, y1 - y, x1 - startX, y1 - startY]
+        }
+      }
+    }
+  }
+
+  solve(0, from.length, 0, to.length)
+  return matches
+}
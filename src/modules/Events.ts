@@ -0,0 +1,170 @@
+/**
+ * @file Events
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+/**
+ * Kinds of change a list reports.
+ *
+ * - `'insert'` a value was added at index.
+ * - `'remove'` a value was removed from index.
+ * - `'update'` the value at index was replaced.
+ * - `'clear'` every value was removed.
+ */
+export type ChangeKind = 'insert' | 'remove' | 'update' | 'clear'
+
+/**
+ * Describes a single change to a list. Records in a batch are listed in the order the changes were made,
+ * and applying them one after another to a copy of the list reproduces the changes.
+ *
+ *  ```
+ *  {kind: 'insert', index: 1, value: 2, previous: null, prev: 1, next: 3}
+ *  ```
+ */
+export interface ChangeRecord<T> {
+  kind: ChangeKind
+
+  /**
+   * Position of the value when the change was made. 0 for clear.
+   */
+  index: number
+
+  /**
+   * The inserted, removed or new value. Null for clear.
+   */
+  value: T | null
+
+  /**
+   * The value an update replaced. Null for every other kind.
+   */
+  previous: T | null
+
+  /**
+   * Value before index, or null at the head.
+   */
+  prev: T | null
+
+  /**
+   * Value after index, or null at the tail.
+   */
+  next: T | null
+}
+
+/**
+ * Function signature expected by .on
+ */
+export type ChangeHandler<T> = (record: ChangeRecord<T>) => void
+
+/**
+ * Function signature expected by .subscribe
+ */
+export type ChangeSubscriber<T> = (records: ChangeRecord<T>[]) => void
+
+/**
+ * Delivers the change records of a single list to its handlers and subscribers.
+ * While a batch is open, records are held back and delivered together when the outermost batch closes.
+ */
+export class ChangeEmitter<T> {
+  private subscribers: ChangeSubscriber<T>[] = []
+  private handlers: {kind: ChangeKind, handler: ChangeHandler<T>}[] = []
+  private depth: number = 0
+  private pending: ChangeRecord<T>[] = []
+
+  /**
+   * True when anyone is listening, lists skip building records otherwise.
+   */
+  get listening(): boolean {
+    return this.subscribers.length > 0 || this.handlers.length > 0
+  }
+
+  /**
+   * True while a batch is open.
+   */
+  get batching(): boolean {
+    return this.depth > 0
+  }
+
+  /**
+   * Number of records held back by the open batch, pass it to .discard to drop everything emitted afterwards.
+   */
+  mark(): number {
+    return this.pending.length
+  }
+
+  /**
+   * Drops the records held back since mark was taken.
+   * @param mark
+   */
+  discard(mark: number): void {
+    this.pending.length = mark
+  }
+
+  /**
+   * Registers handler for records of kind, returns a function that removes it again.
+   * @param kind
+   * @param handler
+   */
+  on(kind: ChangeKind, handler: ChangeHandler<T>): () => void {
+    let entry = {kind, handler}
+    this.handlers.push(entry)
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== entry)
+    }
+  }
+
+  /**
+   * Registers subscriber for every record, returns a function that removes it again.
+   * @param subscriber
+   */
+  subscribe(subscriber: ChangeSubscriber<T>): () => void {
+    this.subscribers.push(subscriber)
+    return () => {
+      this.subscribers = this.subscribers.filter(s => s !== subscriber)
+    }
+  }
+
+  /**
+   * Delivers record now, or when the open batch closes.
+   * @param record
+   */
+  emit(record: ChangeRecord<T>): void {
+    if (this.depth > 0) {
+      this.pending.push(record)
+      return
+    }
+    this.deliver([record])
+  }
+
+  /**
+   * Runs fn, holding back every record it emits and delivering them together afterwards,
+   * even when fn throws. Batches may be nested.
+   * @param fn
+   */
+  batch(fn: () => void): void {
+    this.depth += 1
+    try {
+      fn()
+    } finally {
+      this.depth -= 1
+      if (this.depth === 0 && this.pending.length > 0) {
+        let records = this.pending
+        this.pending = []
+        this.deliver(records)
+      }
+    }
+  }
+
+  private deliver(records: ChangeRecord<T>[]): void {
+    this.subscribers.slice().forEach(subscriber => subscriber(records.slice()))
+    let handlers = this.handlers.slice()
+    records.forEach((record) => {
+      handlers.forEach((entry) => {
+        if (entry.kind === record.kind) {
+          entry.handler(record)
+        }
+      })
+    })
+  }
+}
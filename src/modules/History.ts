@@ -0,0 +1,121 @@
+/**
+ * @file History
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+/**
+ * Options for the history option of {@link DLinkedListOptions}.
+ */
+export interface HistoryOptions {
+  /**
+   * Number of steps that can be undone. The oldest steps are forgotten first. Defaults to 100.
+   */
+  depth?: number
+}
+
+interface Entry<S> {
+  state: S
+  labels: string[]
+}
+
+/**
+ * Keeps the states a list has been in, so it can step back and forth between them.
+ * Only hands back states, restoring them is up to the list.
+ */
+export class History<S> {
+  readonly depth: number
+  private past: Entry<S>[] = []
+  private future: Entry<S>[] = []
+  private present: Entry<S>
+
+  /**
+   *
+   * @param state - The current state.
+   * @param options
+   */
+  constructor(state: S, options: HistoryOptions = {}) {
+    this.depth = options.depth === undefined ? 100 : options.depth
+    if (!Number.isInteger(this.depth) || this.depth < 0) {
+      throw new RangeError(`History depth must be a non negative integer, got ${options.depth}.`)
+    }
+    this.present = {state, labels: []}
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0
+  }
+
+  /**
+   * Records state as the result of a new step. Anything that could be redone is forgotten.
+   * @param state
+   */
+  commit(state: S): void {
+    this.past.push(this.present)
+    if (this.past.length > this.depth) {
+      this.past.shift()
+    }
+    this.present = {state, labels: []}
+    this.future = []
+  }
+
+  /**
+   * Attaches label to the current state.
+   * @param label
+   */
+  checkpoint(label: string): void {
+    this.present.labels.push(label)
+  }
+
+  /**
+   * Steps back once, or back to the most recent state labeled label, and returns the state to restore.
+   * Returns null, without moving, when there is nothing to undo or no state carries label.
+   * @param label
+   */
+  undo(label?: string): S | null {
+    return this.travel(this.past, this.future, label)
+  }
+
+  /**
+   * Steps forward once, or forward to the nearest state labeled label, and returns the state to restore.
+   * Returns null, without moving, when there is nothing to redo or no state carries label.
+   * @param label
+   */
+  redo(label?: string): S | null {
+    return this.travel(this.future, this.past, label)
+  }
+
+  /**
+   * Forgets every step, keeping state as the current one.
+   * @param state
+   */
+  clear(state: S): void {
+    this.past = []
+    this.future = []
+    this.present = {state, labels: []}
+  }
+
+  private travel(from: Entry<S>[], to: Entry<S>[], label?: string): S | null {
+    let steps = 1
+    if (label !== undefined) {
+      let i = from.length - 1
+      while (i >= 0 && from[i].labels.indexOf(label) === -1) {
+        i -= 1
+      }
+      steps = from.length - i
+    }
+    if (steps > from.length) {
+      return null
+    }
+    for (let step = 0; step < steps; step++) {
+      to.push(this.present)
+      this.present = from.pop()
+    }
+    return this.present.state
+  }
+}
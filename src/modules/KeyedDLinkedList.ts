@@ -0,0 +1,331 @@
+/**
+ * @file KeyedDLinkedList
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node} from './Node'
+import {NodeView} from './NodeView'
+import {DLinkedList, DLinkedListOptions} from './DLinkedList'
+
+/**
+ * Options accepted by the KeyedDLinkedList constructor and its static constructors.
+ *
+ *  ```
+ *  const users = new KeyedDLinkedList<number, User>({
+ *    key: user => user.id,
+ *    indexes: {team: user => user.team}
+ *  })
+ *  ```
+ */
+export interface KeyedDLinkedListOptions<K, T> extends DLinkedListOptions<T> {
+  /**
+   * Returns the unique key of a value.
+   */
+  key: (value: T) => K
+
+  /**
+   * Named secondary indexes. Each returns the term a value is indexed under, several values may share a term.
+   */
+  indexes?: {[name: string]: (value: T) => any}
+}
+
+/**
+ * Thrown when a value is added to a {@link KeyedDLinkedList} that already holds a value with the same key.
+ */
+export class DuplicateKeyError extends Error {
+  readonly name: string = 'DuplicateKeyError'
+
+  constructor(key: any) {
+    super(`A value with key "${String(key)}" is already in the list.`)
+  }
+}
+
+interface Entry<K> {
+  key: K
+  terms: Map<string, any>
+}
+
+/**
+ * A {@link DLinkedList} that keeps a Map from the key of every value to its node, so values can be found,
+ * removed and used as positions in constant time, without walking or cloning the rest of the list.
+ * Adding a value whose key is already in the list throws a {@link DuplicateKeyError} and leaves the list as it was.
+ *
+ * Secondary indexes map a term to every value indexed under it. Keys and indexes are kept in sync by every
+ * method that changes the list, including clear, removeHead, removeTail, splice, absorb, undo and redo.
+ *
+ * ```
+ * const users = KeyedDLinkedList.fromArray([{id: 1, team: 'a'}, {id: 2, team: 'b'}, {id: 3, team: 'a'}], {
+ *   key: user => user.id,
+ *   indexes: {team: user => user.team}
+ * })
+ * users.getByKey(2) // {id: 2, team: 'b'}
+ * users.getByIndex('team', 'a') // [{id: 1, team: 'a'}, {id: 3, team: 'a'}]
+ * ```
+ */
+export class KeyedDLinkedList<K, T> extends DLinkedList<T> {
+
+  /**
+   * Accepts an array and returns a KeyedDLinkedList instance holding its values.
+   * @param arr
+   * @param options
+   */
+  public static fromArray<S, K = any>(arr: S[], options: KeyedDLinkedListOptions<K, S>): KeyedDLinkedList<K, S> {
+    let dll = new KeyedDLinkedList<K, S>(options)
+    dll.fromArray(arr)
+    return dll
+  }
+
+  /**
+   * Accepts any iterable and returns a KeyedDLinkedList instance holding its values.
+   * @param iterable
+   * @param options
+   */
+  public static from<S, K = any>(iterable: Iterable<S>, options: KeyedDLinkedListOptions<K, S>): KeyedDLinkedList<K, S> {
+    let dll = new KeyedDLinkedList<K, S>(options)
+    for (let value of iterable) {
+      dll.append(value)
+    }
+    return dll
+  }
+
+  readonly key: (value: T) => K
+  private readonly indexers: Map<string, (value: T) => any>
+  private readonly byKey: Map<K, Node<T>>
+  private readonly byNode: Map<Node<T>, Entry<K>>
+  private readonly byTerm: Map<string, Map<any, Set<Node<T>>>>
+
+  /**
+   *
+   * ```
+   * const dll = new KeyedDLinkedList<string, Product>({key: product => product.sku})
+   * ```
+   *
+   * @param options
+   */
+  constructor(options: KeyedDLinkedListOptions<K, T>) {
+    let {key, indexes, ...listOptions} = options
+    super(listOptions)
+    if (typeof key !== 'function') {
+      throw new TypeError('A KeyedDLinkedList needs a key function.')
+    }
+    this.key = key
+    this.byKey = new Map()
+    this.byNode = new Map()
+    this.byTerm = new Map()
+    this.indexers = new Map(Object.keys(indexes || {}).map(name => [name, indexes[name]] as [string, (value: T) => any]))
+    this.indexers.forEach((indexer, name) => this.byTerm.set(name, new Map()))
+  }
+
+  /**
+   * Returns the value stored under key, or null when there is none.
+   *
+   * ```
+   * const dll = KeyedDLinkedList.fromArray([{id: 1}, {id: 2}], {key: v => v.id})
+   * dll.getByKey(2) // {id: 2}
+   * ```
+   *
+   * @param key
+   */
+  getByKey(key: K): T | null {
+    let node = this.byKey.get(key)
+    return node ? node.getData() : null
+  }
+
+  /**
+   * Returns a {@link NodeView} of the node stored under key, or null when there is none.
+   * @param key
+   */
+  nodeByKey(key: K): NodeView<T> | null {
+    return NodeView.of(this.byKey.get(key) || null)
+  }
+
+  /**
+   * True when a value is stored under key.
+   * @param key
+   */
+  hasKey(key: K): boolean {
+    return this.byKey.has(key)
+  }
+
+  /**
+   * Removes the value stored under key. Does nothing when there is none.
+   *
+   * ```
+   * const dll = KeyedDLinkedList.fromArray([{id: 1}, {id: 2}], {key: v => v.id})
+   * dll.removeByKey(1) // [{id: 2}]
+   * ```
+   *
+   * @param key
+   */
+  removeByKey(key: K): KeyedDLinkedList<K, T> {
+    let node = this.byKey.get(key)
+    if (node) {
+      this.removeNode(node)
+    }
+    return this
+  }
+
+  /**
+   * Inserts data directly after the value stored under key. Throws when there is none.
+   *
+   * ```
+   * const dll = KeyedDLinkedList.fromArray([{id: 1}, {id: 3}], {key: v => v.id})
+   * dll.insertAfterKey(1, {id: 2}) // [{id: 1}, {id: 2}, {id: 3}]
+   * ```
+   *
+   * @param key
+   * @param data
+   */
+  insertAfterKey(key: K, data: T): KeyedDLinkedList<K, T> {
+    this.insertAfterNode(this.requireNode(key), data)
+    return this
+  }
+
+  /**
+   * Inserts data directly before the value stored under key. Throws when there is none.
+   * @param key
+   * @param data
+   */
+  insertBeforeKey(key: K, data: T): KeyedDLinkedList<K, T> {
+    this.insertBeforeNode(this.requireNode(key), data)
+    return this
+  }
+
+  /**
+   * Moves the value stored under key so it sits directly before the value stored under target.
+   * Throws when either key is missing.
+   *
+   * ```
+   * const dll = KeyedDLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}], {key: v => v.id})
+   * dll.moveBeforeKey(3, 1) // [{id: 3}, {id: 1}, {id: 2}]
+   * ```
+   *
+   * @param key
+   * @param target
+   */
+  moveBeforeKey(key: K, target: K): KeyedDLinkedList<K, T> {
+    this.moveBeforeNode(this.requireNode(key), this.requireNode(target))
+    return this
+  }
+
+  /**
+   * Moves the value stored under key so it sits directly after the value stored under target.
+   * Throws when either key is missing.
+   * @param key
+   * @param target
+   */
+  moveAfterKey(key: K, target: K): KeyedDLinkedList<K, T> {
+    this.moveAfterNode(this.requireNode(key), this.requireNode(target))
+    return this
+  }
+
+  /**
+   * Returns every value the named index holds under term, in the order they were added to the list.
+   * Throws when no index of that name was defined.
+   *
+   * ```
+   * const dll = KeyedDLinkedList.fromArray([{id: 1, team: 'a'}, {id: 2, team: 'b'}], {
+   *   key: v => v.id,
+   *   indexes: {team: v => v.team}
+   * })
+   * dll.getByIndex('team', 'a') // [{id: 1, team: 'a'}]
+   * ```
+   *
+   * @param name
+   * @param term
+   */
+  getByIndex(name: string, term: any): T[] {
+    let index = this.byTerm.get(name)
+    if (!index) {
+      throw new Error(`No index named "${name}" was defined.`)
+    }
+    let nodes = index.get(term)
+    return nodes ? Array.from(nodes, node => node.getData()) : []
+  }
+
+  /**
+   * Moves every node of other into this list in constant time, see {@link DLinkedList.absorb}.
+   * Throws a {@link DuplicateKeyError}, leaving both lists as they were, when a key of other is already in use.
+   * @param other
+   */
+  absorb(other: DLinkedList<T>): KeyedDLinkedList<K, T> {
+    let incoming = new Set<K>()
+    for (let value of other) {
+      let key = this.key(value)
+      if (this.byKey.has(key) || incoming.has(key)) {
+        throw new DuplicateKeyError(key)
+      }
+      incoming.add(key)
+    }
+    super.absorb(other)
+    return this
+  }
+
+  protected nodeAttached(node: Node<T>): void {
+    if (this.byNode.has(node)) {
+      return
+    }
+    let data = node.getData()
+    let key = this.key(data)
+    if (this.byKey.has(key)) {
+      throw new DuplicateKeyError(key)
+    }
+    let terms = new Map<string, any>()
+    this.indexers.forEach((indexer, name) => {
+      let term = indexer(data)
+      let index = this.byTerm.get(name)
+      let nodes = index.get(term)
+      if (!nodes) {
+        nodes = new Set()
+        index.set(term, nodes)
+      }
+      nodes.add(node)
+      terms.set(name, term)
+    })
+    this.byKey.set(key, node)
+    this.byNode.set(node, {key, terms})
+  }
+
+  protected nodeReleased(node: Node<T>): void {
+    let entry = this.byNode.get(node)
+    if (!entry) {
+      return
+    }
+    entry.terms.forEach((term, name) => {
+      let index = this.byTerm.get(name)
+      let nodes = index.get(term)
+      nodes.delete(node)
+      if (nodes.size === 0) {
+        index.delete(term)
+      }
+    })
+    this.byKey.delete(entry.key)
+    this.byNode.delete(node)
+  }
+
+  protected allReleased(): void {
+    this.byKey.clear()
+    this.byNode.clear()
+    this.byTerm.forEach(index => index.clear())
+  }
+
+  protected runAttached(first: Node<T>): void {
+    for (let current = first; current !== null; current = current.getNext()) {
+      this.nodeAttached(current)
+    }
+  }
+
+  /**
+   * Returns the node stored under key, throwing when there is none.
+   * @param key
+   */
+  private requireNode(key: K): Node<T> {
+    let node = this.byKey.get(key)
+    if (!node) {
+      throw new Error(`No value with key "${String(key)}" was found.`)
+    }
+    return node
+  }
+}
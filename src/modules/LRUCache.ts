@@ -0,0 +1,303 @@
+/**
+ * @file LRUCache
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node} from './Node'
+import {DLinkedList} from './DLinkedList'
+
+/**
+ * Why an entry left the cache on its own.
+ *
+ * - `'size'` it was the least recently used entry while the cache was over maxSize.
+ * - `'expired'` its time to live ran out.
+ */
+export type EvictionReason = 'size' | 'expired'
+
+/**
+ * Options accepted by the LRUCache constructor.
+ *
+ *  ```
+ *  const cache = new LRUCache<string, Buffer>({
+ *    maxSize: 1024 * 1024,
+ *    sizeCalculation: (buf) => buf.length,
+ *    ttl: 60000,
+ *    onEvict: (key, buf, reason) => log(`${key} left the cache: ${reason}`)
+ *  })
+ *  ```
+ */
+export interface LRUCacheOptions<K, V> {
+  /**
+   * Largest total size the cache may hold. Defaults to Infinity.
+   */
+  maxSize?: number
+
+  /**
+   * Returns the size of an entry. Defaults to 1 per entry, making maxSize the maximum number of entries.
+   */
+  sizeCalculation?: (value: V, key: K) => number
+
+  /**
+   * Milliseconds an entry lives after it is set. Defaults to 0, entries never expire.
+   */
+  ttl?: number
+
+  /**
+   * Called after an entry is evicted for size or expiry. Not called for .delete, .clear or overwrites.
+   */
+  onEvict?: (key: K, value: V, reason: EvictionReason) => void
+}
+
+/**
+ * Options accepted by .set
+ */
+export interface LRUCacheSetOptions {
+  /**
+   * Milliseconds this entry lives, overriding the cache ttl. 0 never expires.
+   */
+  ttl?: number
+}
+
+interface Entry<K, V> {
+  key: K
+  value: V
+  size: number
+  expires: number
+}
+
+/**
+ * A least recently used cache. Entries are kept in a {@link DLinkedList} from most to least recently used,
+ * with a Map from keys to their nodes, so reads and writes relink a single node to the head in constant time.
+ * When the total size grows past maxSize, entries are evicted from the tail.
+ *
+ * Keys and values are stored as they are, without cloning.
+ *
+ * ```
+ * const cache = new LRUCache<string, number>({maxSize: 2})
+ * cache.set('a', 1).set('b', 2)
+ * cache.get('a') // 1, 'a' is now the most recently used
+ * cache.set('c', 3) // evicts 'b'
+ * [...cache.keys()] // ['c', 'a']
+ * ```
+ */
+export class LRUCache<K, V> implements Iterable<[K, V]> {
+  readonly maxSize: number
+  readonly ttl: number
+  private readonly sizeCalculation: (value: V, key: K) => number
+  private readonly onEvict: (key: K, value: V, reason: EvictionReason) => void
+  private readonly list = new DLinkedList<Entry<K, V>>({cloner: 'none'})
+  private readonly nodes = new Map<K, Node<Entry<K, V>>>()
+  private total: number = 0
+
+  /**
+   *
+   * @param options
+   */
+  constructor(options: LRUCacheOptions<K, V> = {}) {
+    this.maxSize = options.maxSize === undefined ? Infinity : options.maxSize
+    this.ttl = options.ttl || 0
+    this.sizeCalculation = options.sizeCalculation || (() => 1)
+    this.onEvict = options.onEvict || null
+    if (!(this.maxSize > 0)) {
+      throw new RangeError(`maxSize must be greater than 0, got ${options.maxSize}.`)
+    }
+  }
+
+  /**
+   * Number of entries, including expired entries that have not been pruned yet.
+   */
+  get size(): number {
+    return this.nodes.size
+  }
+
+  /**
+   * Total size of every entry, as measured by sizeCalculation.
+   */
+  get calculatedSize(): number {
+    return this.total
+  }
+
+  /**
+   * Returns the value stored for key and marks it as the most recently used, or undefined when
+   * there is none or it has expired.
+   * @param key
+   */
+  get(key: K): V | undefined {
+    let node = this.live(key)
+    if (node === null) {
+      return undefined
+    }
+    this.list.moveToHead(node)
+    return node.getData().value
+  }
+
+  /**
+   * Returns the value stored for key without changing its recency, or undefined when there is none or it has expired.
+   * @param key
+   */
+  peek(key: K): V | undefined {
+    let node = this.live(key)
+    return node === null ? undefined : node.getData().value
+  }
+
+  /**
+   * True when a value that has not expired is stored for key. Does not change its recency.
+   * @param key
+   */
+  has(key: K): boolean {
+    return this.live(key) !== null
+  }
+
+  /**
+   * Stores value for key as the most recently used entry, then evicts least recently used entries
+   * until the cache fits maxSize. Throws a RangeError when value alone is larger than maxSize.
+   * @param key
+   * @param value
+   * @param options
+   */
+  set(key: K, value: V, options: LRUCacheSetOptions = {}): LRUCache<K, V> {
+    let size = this.sizeCalculation(value, key)
+    if (typeof size !== 'number' || !(size >= 0)) {
+      throw new TypeError(`sizeCalculation must return a non negative number, got ${size}.`)
+    }
+    if (size > this.maxSize) {
+      throw new RangeError(`Entry size ${size} is larger than maxSize ${this.maxSize}.`)
+    }
+    let ttl = options.ttl === undefined ? this.ttl : options.ttl
+    let expires = ttl > 0 ? Date.now() + ttl : 0
+
+    let node = this.nodes.get(key)
+    if (node) {
+      let entry = node.getData()
+      this.total += size - entry.size
+      entry.value = value
+      entry.size = size
+      entry.expires = expires
+      this.list.moveToHead(node)
+    } else {
+      this.list.prepend({key, value, size, expires})
+      this.nodes.set(key, this.list.head_node)
+      this.total += size
+    }
+
+    while (this.total > this.maxSize) {
+      this.evict(this.list.tail_node, 'size')
+    }
+    return this
+  }
+
+  /**
+   * Removes the entry for key, returning true when there was one.
+   * @param key
+   */
+  delete(key: K): boolean {
+    let node = this.nodes.get(key)
+    if (!node) {
+      return false
+    }
+    this.remove(node)
+    return true
+  }
+
+  /**
+   * Removes every entry.
+   */
+  clear(): LRUCache<K, V> {
+    this.list.clear()
+    this.nodes.clear()
+    this.total = 0
+    return this
+  }
+
+  /**
+   * Evicts every expired entry.
+   */
+  prune(): LRUCache<K, V> {
+    let current = this.list.head_node
+    while (current !== null) {
+      let next = current.getNext()
+      if (this.expired(current)) {
+        this.evict(current, 'expired')
+      }
+      current = next
+    }
+    return this
+  }
+
+  /**
+   * Iterates [key, value] pairs that have not expired, from most to least recently used.
+   */
+  * entries(): IterableIterator<[K, V]> {
+    let current = this.list.head_node
+    while (current !== null) {
+      let entry = current.getData()
+      current = current.getNext()
+      if (entry.expires === 0 || entry.expires > Date.now()) {
+        yield [entry.key, entry.value]
+      }
+    }
+  }
+
+  /**
+   * Iterates keys that have not expired, from most to least recently used.
+   */
+  * keys(): IterableIterator<K> {
+    for (let [key] of this.entries()) {
+      yield key
+    }
+  }
+
+  /**
+   * Iterates values that have not expired, from most to least recently used.
+   */
+  * values(): IterableIterator<V> {
+    for (let [, value] of this.entries()) {
+      yield value
+    }
+  }
+
+  /**
+   * Same as .entries, allows a cache to be used with for...of, spread and Array.from.
+   */
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+
+  /**
+   * Returns the node for key, evicting it first when it has expired.
+   * @param key
+   */
+  private live(key: K): Node<Entry<K, V>> | null {
+    let node = this.nodes.get(key)
+    if (!node) {
+      return null
+    }
+    if (this.expired(node)) {
+      this.evict(node, 'expired')
+      return null
+    }
+    return node
+  }
+
+  private expired(node: Node<Entry<K, V>>): boolean {
+    let expires = node.getData().expires
+    return expires !== 0 && expires <= Date.now()
+  }
+
+  private evict(node: Node<Entry<K, V>>, reason: EvictionReason): void {
+    let entry = node.getData()
+    this.remove(node)
+    if (this.onEvict) {
+      this.onEvict(entry.key, entry.value, reason)
+    }
+  }
+
+  private remove(node: Node<Entry<K, V>>): void {
+    let entry = node.getData()
+    this.list.removeNode(node)
+    this.nodes.delete(entry.key)
+    this.total -= entry.size
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @file Layout
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node, NodeOwner} from './Node'
+
+/**
+ * Thrown by .validate, and after every change while {@link DLinkedList.debug} is on, when the links of a list
+ * are broken. The message names the first broken link found.
+ */
+export class InvariantError extends Error {
+  readonly name: string = 'InvariantError'
+
+  constructor(message: string) {
+    super(message)
+  }
+}
+
+/**
+ * How a {@link DLinkedList} keeps its values in memory.
+ *
+ * - `'nodes'` links one {@link Node} per value. Every operation on a node is constant time.
+ * - `'unrolled'` packs values into arrays of up to chunkSize values, linked together, which takes far less
+ *   memory for large lists of small values. Nodes are only created for the values they are asked for.
+ */
+export type LayoutKind = 'nodes' | 'unrolled'
+
+/**
+ * Where a layout puts a value: at an index from 0 up to its size, or directly before or after one of its nodes.
+ */
+export type Place<T> = number | {before: Node<T>} | {after: Node<T>}
+
+/**
+ * Storage behind a {@link DLinkedList}. A layout keeps values in order and hands out {@link Node}s for them,
+ * while the list takes care of options, node checks, changes and history. Indexes handed to a layout are
+ * always in range and nodes always belong to it.
+ *
+ * Iteration yields cells, whatever the layout finds cheapest to hand out. Pass a cell to read for its value,
+ * or to nodeOf for its node.
+ */
+export interface Layout<T, C = any> {
+  /**
+   * Number of values.
+   */
+  size: number
+
+  /**
+   * Handed to every node the layout creates, see {@link NodeOwner}.
+   */
+  owner: NodeOwner
+
+  first(): Node<T> | null
+
+  last(): Node<T> | null
+
+  nodeAt(index: number): Node<T>
+
+  indexOf(node: Node<T>): number
+
+  /**
+   * Iterates the cells from index from, towards the tail or, when backwards, towards the head.
+   * @param from
+   * @param backwards
+   */
+  cells(from: number, backwards: boolean): IterableIterator<C>
+
+  read(cell: C): T
+
+  nodeOf(cell: C, index: number): Node<T>
+
+  /**
+   * Returns a new, unlinked node holding data, stored the way the layout stores values.
+   * @param data
+   */
+  create(data: T): Node<T>
+
+  /**
+   * Stores data at place, creating a node owned by owner only if the layout keeps one per value.
+   * @param data
+   * @param place
+   */
+  insert(data: T, place: Place<T>): void
+
+  /**
+   * Links a node made by create, or unlinked, in at place.
+   * @param node
+   * @param place
+   */
+  link(node: Node<T>, place: Place<T>): void
+
+  /**
+   * Takes node out of the order. It keeps its owner, so it can be linked in again.
+   * @param node
+   */
+  unlink(node: Node<T>): void
+
+  /**
+   * Removes the value at index, releasing its node if it has one.
+   * @param index
+   */
+  remove(index: number): void
+
+  /**
+   * Stores data in place of the value at index, releasing the node of the old value if it has one.
+   * @param index
+   * @param data
+   */
+  update(index: number, data: T): void
+
+  /**
+   * Links replacement, a node made by create, where node is and unlinks node.
+   * @param node
+   * @param replacement
+   */
+  replace(node: Node<T>, replacement: Node<T>): void
+
+  /**
+   * Moves count values from index onto the empty layout into. Their nodes are handed to into's owner.
+   * @param index
+   * @param count
+   * @param into
+   */
+  cut(index: number, count: number, into: Layout<T, C>): void
+
+  /**
+   * Moves every value of other onto the end of this layout, leaving other empty. Nodes keep their owner.
+   * @param other
+   */
+  join(other: Layout<T, C>): void
+
+  /**
+   * Replaces the contents of the layout with nodes, in order.
+   * @param nodes
+   */
+  relink(nodes: Node<T>[]): void
+
+  reverse(): void
+
+  /**
+   * Sorts stably, reading each value once.
+   * @param comparator
+   */
+  sort(comparator: (a: T, b: T) => number): void
+
+  /**
+   * Drops every value. Nodes are released by the list, through the owner.
+   */
+  clear(): void
+
+  /**
+   * Throws an {@link InvariantError} describing the first broken part of the layout.
+   * @param list - The list every node must belong to.
+   */
+  validate(list: object): void
+}
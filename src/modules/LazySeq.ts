@@ -0,0 +1,317 @@
+/**
+ * @file LazySeq
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {
+  DLinkedList,
+  DLinkedListOptions,
+  filterPredicate,
+  filterGuard,
+  mapIteratee,
+  eachIteratee,
+  reduceIteratee
+} from './DLinkedList'
+import {DeepReadonly, asReadonly} from './DeepReadonly'
+
+/**
+ * A lazy, fused pipeline over the values of a list or any other iterable. Created by .lazy.
+ *
+ * Operators only describe the pipeline. Nothing is read until a terminal operation runs, and then every
+ * value passes through all stages in a single walk, without intermediate arrays or lists.
+ * Terminals stop walking as soon as the result is known, so take, takeWhile and first never read
+ * further than they need to. A sequence can be run any number of times and reads its source afresh each time.
+ * Callbacks receive each value, its index among the values reaching their stage and the sequence the stage was added to.
+ *
+ * ```
+ * const dll = DLinkedList.fromArray([1,2,3,4,5,6])
+ * dll.lazy().map(v => v * 2).filter(v => v > 4).first() // 6, reading only the first three nodes
+ * ```
+ */
+export class LazySeq<T> implements Iterable<T> {
+
+  /**
+   * Returns a LazySeq over any iterable.
+   * @param source
+   * @param options - Storage options for lists created by .toList.
+   */
+  public static of<S>(source: Iterable<S>, options?: DLinkedListOptions): LazySeq<S> {
+    return new LazySeq<S>(source, options)
+  }
+
+  private readonly source: Iterable<T>
+  private readonly options: DLinkedListOptions
+
+  /**
+   *
+   * @param source
+   * @param options - Storage options for lists created by .toList.
+   */
+  constructor(source: Iterable<T>, options: DLinkedListOptions = {}) {
+    this.source = source
+    this.options = options
+  }
+
+  /**
+   * Runs the pipeline, yielding each value as it passes the last stage.
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]()
+  }
+
+  /**
+   * Adds a stage that replaces each value with the one iteratee returns.
+   *
+   * ```
+   * dll.lazy().map(v => v * 2)
+   * ```
+   *
+   * @param iteratee
+   */
+  map<V>(iteratee: mapIteratee<T, V, LazySeq<T>>): LazySeq<V> {
+    let seq = this
+    return this.pipe<V>(function* (source) {
+      let index = 0
+      for (let value of source) {
+        yield iteratee(asReadonly(value), index, seq)
+        index += 1
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that only passes on values predicate returns truthy for.
+   *
+   * ```
+   * dll.lazy().filter(v => v % 2 === 0)
+   * ```
+   *
+   * @param predicate
+   */
+  filter<S extends DeepReadonly<T>>(predicate: filterGuard<T, S, LazySeq<T>>): LazySeq<S>
+  filter(predicate: filterPredicate<T, LazySeq<T>>): LazySeq<T>
+  filter(predicate: filterPredicate<T, LazySeq<T>>): LazySeq<T> {
+    let seq = this
+    return this.pipe<T>(function* (source) {
+      let index = 0
+      for (let value of source) {
+        if (predicate(asReadonly(value), index, seq)) {
+          yield value
+        }
+        index += 1
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that replaces each value with every value of the iterable iteratee returns.
+   *
+   * ```
+   * DLinkedList.fromArray([1,2]).lazy().flatMap(v => [v, v * 10]).toArray() // [1,10,2,20]
+   * ```
+   *
+   * @param iteratee
+   */
+  flatMap<V>(iteratee: mapIteratee<T, Iterable<V>, LazySeq<T>>): LazySeq<V> {
+    let seq = this
+    return this.pipe<V>(function* (source) {
+      let index = 0
+      for (let value of source) {
+        yield* iteratee(asReadonly(value), index, seq)
+        index += 1
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that passes on the first count values, then stops reading.
+   *
+   * ```
+   * dll.lazy().take(2)
+   * ```
+   *
+   * @param count
+   */
+  take(count: number): LazySeq<T> {
+    return this.pipe<T>(function* (source) {
+      if (count <= 0) {
+        return
+      }
+      let taken = 0
+      for (let value of source) {
+        yield value
+        taken += 1
+        if (taken >= count) {
+          return
+        }
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that passes on values until predicate returns falsy for one, then stops reading.
+   *
+   * ```
+   * DLinkedList.fromArray([1,2,5,1]).lazy().takeWhile(v => v < 3).toArray() // [1,2]
+   * ```
+   *
+   * @param predicate
+   */
+  takeWhile(predicate: filterPredicate<T, LazySeq<T>>): LazySeq<T> {
+    let seq = this
+    return this.pipe<T>(function* (source) {
+      let index = 0
+      for (let value of source) {
+        if (!predicate(asReadonly(value), index, seq)) {
+          return
+        }
+        yield value
+        index += 1
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that drops the first count values.
+   *
+   * ```
+   * dll.lazy().skip(2)
+   * ```
+   *
+   * @param count
+   */
+  skip(count: number): LazySeq<T> {
+    return this.pipe<T>(function* (source) {
+      let skipped = 0
+      for (let value of source) {
+        if (skipped < count) {
+          skipped += 1
+          continue
+        }
+        yield value
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that pairs each value with the value at the same position of other.
+   * Stops at the end of whichever is shorter.
+   *
+   * ```
+   * DLinkedList.fromArray([1,2,3]).lazy().zip(['a','b']).toArray() // [[1,'a'],[2,'b']]
+   * ```
+   *
+   * @param other
+   */
+  zip<V>(other: Iterable<V>): LazySeq<[T, V]> {
+    return this.pipe<[T, V]>(function* (source) {
+      let others = other[Symbol.iterator]()
+      try {
+        for (let value of source) {
+          let paired = others.next()
+          if (paired.done) {
+            return
+          }
+          yield [value, paired.value] as [T, V]
+        }
+      } finally {
+        if (typeof others.return === 'function') {
+          others.return()
+        }
+      }
+    })
+  }
+
+  /**
+   * Adds a stage that passes on the running accumulator after iteratee folds in each value.
+   *
+   * ```
+   * DLinkedList.fromArray([1,2,3]).lazy().scan((acc, v) => acc + v, 0).toArray() // [1,3,6]
+   * ```
+   *
+   * @param iteratee
+   * @param accumulator
+   */
+  scan<A>(iteratee: reduceIteratee<A, T, LazySeq<T>>, accumulator: A): LazySeq<A> {
+    let seq = this
+    return this.pipe<A>(function* (source) {
+      let acc = accumulator
+      let index = 0
+      for (let value of source) {
+        acc = iteratee(acc, asReadonly(value), index, seq)
+        yield acc
+        index += 1
+      }
+    })
+  }
+
+  /**
+   * Runs the pipeline into a new DLinkedList, with the storage options of the list the sequence came from.
+   */
+  toList(): DLinkedList<T> {
+    return DLinkedList.from(this, this.options)
+  }
+
+  /**
+   * Runs the pipeline into an array.
+   */
+  toArray(): T[] {
+    return Array.from(this)
+  }
+
+  /**
+   * Runs the pipeline until the first value comes out and returns it, or null when none does.
+   *
+   * ```
+   * dll.lazy().filter(v => v > 2).first()
+   * ```
+   */
+  first(): T | null {
+    for (let value of this) {
+      return value
+    }
+    return null
+  }
+
+  /**
+   * Runs the pipeline, reducing its values to a single value.
+   *
+   * ```
+   * dll.lazy().map(v => v * 2).reduce((acc, v) => acc + v, 0)
+   * ```
+   *
+   * @param iteratee
+   * @param accumulator
+   */
+  reduce<A>(iteratee: reduceIteratee<A, T, LazySeq<T>>, accumulator: A): A {
+    let acc = accumulator
+    let index = 0
+    for (let value of this) {
+      acc = iteratee(acc, asReadonly(value), index, this)
+      index += 1
+    }
+    return acc
+  }
+
+  /**
+   * Runs the pipeline, calling iteratee with each value.
+   * @param iteratee
+   */
+  forEach(iteratee: eachIteratee<T, LazySeq<T>>): void {
+    let index = 0
+    for (let value of this) {
+      iteratee(asReadonly(value), index, this)
+      index += 1
+    }
+  }
+
+  /**
+   * Returns a new sequence whose values are produced by stage from the values of this one.
+   * @param stage
+   */
+  private pipe<V>(stage: (source: Iterable<T>) => Iterator<V>): LazySeq<V> {
+    return new LazySeq<V>({[Symbol.iterator]: () => stage(this.source)}, this.options)
+  }
+}
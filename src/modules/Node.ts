@@ -5,36 +5,115 @@
  * @license MIT {@link http://opensource.org/licenses/MIT}
  */
 
-import isPlainObject from 'lodash.isplainobject'
-import cloneDeep from 'lodash.clonedeep'
+import {Cloner, clonePlain, cloneDeeply, cloneStructured, cloneNone, deepFreeze} from './Cloner'
+import {readOnlyView, viewTarget} from './ReadOnlyView'
 
 /**
- * Deeply clones plain objects and arrays
- * @param obj
+ * How a Node keeps its value and what it hands back from getData.
+ *
+ * - `'clone'` runs the cloner on the way in and on every read.
+ * - `'freeze'` deep clones once on the way in, deep freezes the copy and returns it directly.
+ * - `'proxy'` runs the cloner once on the way in and returns a read-only view of the stored value.
  */
-const clonePlain = (obj: any) => {
-  return (isPlainObject(obj) || Array.isArray(obj)) ? cloneDeep(obj) : obj
+export type StorageMode = 'clone' | 'freeze' | 'proxy'
+
+/**
+ * Identifies the list a Node currently belongs to. A list hands the same owner to all of its nodes
+ * and marks it detached when it is cleared, releasing every node at once.
+ * When one list absorbs another, the absorbed owner is pointed at the new list, moving every node at once.
+ */
+export interface NodeOwner {
+  list: object
+  attached: boolean
+}
+
+/**
+ * Thrown when a node from one list is passed to a method of another.
+ */
+export class ForeignNodeError extends Error {
+  readonly name: string = 'ForeignNodeError'
+
+  constructor(message: string = 'Node belongs to a different list.') {
+    super(message)
+  }
+}
+
+/**
+ * Thrown when a node that has been removed from its list, or never belonged to one, is passed to a list method.
+ */
+export class DetachedNodeError extends Error {
+  readonly name: string = 'DetachedNodeError'
+
+  constructor(message: string = 'Node has been removed from its list.') {
+    super(message)
+  }
+}
+
+/**
+ * Returns a deep copy of data for 'freeze' storage, which shares nothing with the caller and so can be frozen.
+ * 'plain' and 'none' may hand back the caller's own objects and are replaced by {@link cloneDeeply},
+ * custom cloners run first and their result is deep cloned.
+ * @param data
+ * @param cloner
+ */
+const freezableCopy = <T>(data: T, cloner: Cloner): T => {
+  if (cloner === cloneDeeply || cloner === cloneStructured) {
+    return cloner(data)
+  }
+  return cloneDeeply(cloner === clonePlain || cloner === cloneNone ? data : cloner(data))
+}
+
+/**
+ * Returns data as it is kept under storage: cloned, or deep cloned and deep frozen for 'freeze'.
+ * @param data
+ * @param cloner
+ * @param storage
+ */
+export function storeValue<T>(data: T, cloner: Cloner, storage: StorageMode): T {
+  let source = viewTarget(data)
+  return storage === 'freeze' ? deepFreeze(freezableCopy(source, cloner)) : cloner(source)
+}
+
+/**
+ * Returns the function that turns a value kept under storage into what a read hands out.
+ * @param cloner
+ * @param storage
+ */
+export function storageReader(cloner: Cloner, storage: StorageMode): Cloner {
+  switch (storage) {
+    case 'freeze':
+      return cloneNone
+    case 'proxy':
+      return readOnlyView
+    default:
+      return cloner
+  }
 }
 
 export class Node<T> {
   readonly data: T
   next: Node<T>
   prev: Node<T>
+  private owner: NodeOwner = null
+  private readonly reader: Cloner
 
   /**
    *
    * @param data
    * @param prev
    * @param next
+   * @param cloner - Applied to data when stored and again on every read. Defaults to {@link clonePlain}.
+   * @param storage - See {@link StorageMode}. Defaults to 'clone'.
    */
-  constructor(data, prev?: Node<T>, next?: Node<T>) {
-    this.data = clonePlain(data)
+  constructor(data, prev?: Node<T>, next?: Node<T>, cloner: Cloner = clonePlain, storage: StorageMode = 'clone') {
+    this.data = storeValue(data, cloner, storage)
+    this.reader = storageReader(cloner, storage)
     this.prev = prev || null
     this.next = next || null
   }
 
   getData(): T {
-    return clonePlain(this.data)
+    return this.reader(this.data)
   }
 
   setNext(node: Node<T> | null): void {
@@ -52,4 +131,19 @@ export class Node<T> {
   getPrev(): Node<T> {
     return this.prev
   }
+
+  setOwner(owner: NodeOwner | null): void {
+    this.owner = owner
+  }
+
+  getOwner(): NodeOwner | null {
+    return this.owner
+  }
+
+  /**
+   * True while the node is part of a list.
+   */
+  isAttached(): boolean {
+    return this.owner !== null && this.owner.attached
+  }
 }
\ No newline at end of file
@@ -0,0 +1,363 @@
+/**
+ * @file NodeLayout
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node, NodeOwner, StorageMode} from './Node'
+import {Cloner} from './Cloner'
+import {Layout, Place, InvariantError} from './Layout'
+
+/**
+ * Stable merge sort over a run of nodes linked through next, ending in null.
+ * Only next pointers are rewritten, the caller restores prev pointers afterwards.
+ * @param head
+ * @param length
+ * @param compare
+ */
+const mergeSortNodes = <T>(head: Node<T>, length: number, compare: (a: Node<T>, b: Node<T>) => number): Node<T> => {
+  if (length < 2) {
+    return head
+  }
+  let half = Math.floor(length / 2)
+  let last = head
+  for (let i = 1; i < half; i++) {
+    last = last.getNext()
+  }
+  let right = last.getNext()
+  last.setNext(null)
+
+  let left = mergeSortNodes(head, half, compare)
+  right = mergeSortNodes(right, length - half, compare)
+
+  let first: Node<T> = null
+  let tail: Node<T> = null
+  while (left !== null && right !== null) {
+    let next: Node<T>
+    if (compare(left, right) <= 0) {
+      next = left
+      left = left.getNext()
+    } else {
+      next = right
+      right = right.getNext()
+    }
+    if (tail === null) {
+      first = next
+    } else {
+      tail.setNext(next)
+    }
+    tail = next
+  }
+  tail.setNext(left !== null ? left : right)
+  return first
+}
+
+/**
+ * The 'nodes' {@link LayoutKind}: one {@link Node} per value, linked through next and prev.
+ * Its cells are the nodes themselves.
+ */
+export class NodeLayout<T> implements Layout<T, Node<T>> {
+  head: Node<T> = null
+  tail: Node<T> = null
+  size: number = 0
+
+  /**
+   *
+   * @param owner
+   * @param cloner
+   * @param storage
+   */
+  constructor(public owner: NodeOwner, private readonly cloner: Cloner, private readonly storage: StorageMode) {
+  }
+
+  first(): Node<T> | null {
+    return this.head
+  }
+
+  last(): Node<T> | null {
+    return this.tail
+  }
+
+  /**
+   * Walks from whichever end of the list is closer.
+   * @param index
+   */
+  nodeAt(index: number): Node<T> {
+    if (index < this.size / 2) {
+      let current = this.head
+      for (let step = 0; step < index; step++) {
+        current = current.getNext()
+      }
+      return current
+    }
+
+    let current = this.tail
+    for (let step = this.size - 1; step > index; step--) {
+      current = current.getPrev()
+    }
+    return current
+  }
+
+  indexOf(node: Node<T>): number {
+    let index = 0
+    for (let current = this.head; current !== node; current = current.getNext()) {
+      index += 1
+    }
+    return index
+  }
+
+  * cells(from: number, backwards: boolean): IterableIterator<Node<T>> {
+    let current = from >= 0 && from < this.size ? this.nodeAt(from) : null
+    while (current !== null) {
+      let next = backwards ? current.getPrev() : current.getNext()
+      yield current
+      current = next
+    }
+  }
+
+  read(cell: Node<T>): T {
+    return cell.getData()
+  }
+
+  nodeOf(cell: Node<T>): Node<T> {
+    return cell
+  }
+
+  create(data: T): Node<T> {
+    return new Node<T>(data, null, null, this.cloner, this.storage)
+  }
+
+  insert(data: T, place: Place<T>): void {
+    let node = this.create(data)
+    node.setOwner(this.owner)
+    this.link(node, place)
+  }
+
+  link(node: Node<T>, place: Place<T>): void {
+    let prev: Node<T>
+    let next: Node<T>
+    if (typeof place === 'number') {
+      next = place === this.size ? null : this.nodeAt(place)
+      prev = next === null ? this.tail : next.getPrev()
+    } else if ('before' in place) {
+      next = place.before
+      prev = next.getPrev()
+    } else {
+      prev = place.after
+      next = prev.getNext()
+    }
+    node.setPrev(prev)
+    node.setNext(next)
+    if (prev === null) {
+      this.head = node
+    } else {
+      prev.setNext(node)
+    }
+    if (next === null) {
+      this.tail = node
+    } else {
+      next.setPrev(node)
+    }
+    this.size += 1
+  }
+
+  unlink(node: Node<T>): void {
+    let prev = node.getPrev()
+    let next = node.getNext()
+    if (prev === null) {
+      this.head = next
+    } else {
+      prev.setNext(next)
+    }
+    if (next === null) {
+      this.tail = prev
+    } else {
+      next.setPrev(prev)
+    }
+    node.setPrev(null)
+    node.setNext(null)
+    this.size -= 1
+  }
+
+  remove(index: number): void {
+    let node = this.nodeAt(index)
+    this.unlink(node)
+    node.setOwner(null)
+  }
+
+  update(index: number, data: T): void {
+    let node = this.nodeAt(index)
+    let replacement = this.create(data)
+    replacement.setOwner(this.owner)
+    this.replace(node, replacement)
+    node.setOwner(null)
+  }
+
+  replace(node: Node<T>, replacement: Node<T>): void {
+    let prev = node.getPrev()
+    let next = node.getNext()
+    replacement.setPrev(prev)
+    replacement.setNext(next)
+    if (prev === null) {
+      this.head = replacement
+    } else {
+      prev.setNext(replacement)
+    }
+    if (next === null) {
+      this.tail = replacement
+    } else {
+      next.setPrev(replacement)
+    }
+    node.setPrev(null)
+    node.setNext(null)
+  }
+
+  cut(index: number, count: number, into: NodeLayout<T>): void {
+    let first = this.nodeAt(index)
+    let last = first
+    for (let i = 1; i < count; i++) {
+      last = last.getNext()
+    }
+    let before = first.getPrev()
+    let after = last.getNext()
+    if (before === null) {
+      this.head = after
+    } else {
+      before.setNext(after)
+    }
+    if (after === null) {
+      this.tail = before
+    } else {
+      after.setPrev(before)
+    }
+    this.size -= count
+
+    first.setPrev(null)
+    last.setNext(null)
+    for (let current = first; current !== null; current = current.getNext()) {
+      current.setOwner(into.owner)
+    }
+    into.head = first
+    into.tail = last
+    into.size = count
+  }
+
+  join(other: NodeLayout<T>): void {
+    if (other.head === null) {
+      return
+    }
+    if (this.head === null) {
+      this.head = other.head
+    } else {
+      this.tail.setNext(other.head)
+      other.head.setPrev(this.tail)
+    }
+    this.tail = other.tail
+    this.size += other.size
+    other.clear()
+  }
+
+  relink(nodes: Node<T>[]): void {
+    nodes.forEach((node, i) => {
+      node.setPrev(i > 0 ? nodes[i - 1] : null)
+      node.setNext(i < nodes.length - 1 ? nodes[i + 1] : null)
+    })
+    this.head = nodes.length > 0 ? nodes[0] : null
+    this.tail = nodes.length > 0 ? nodes[nodes.length - 1] : null
+    this.size = nodes.length
+  }
+
+  /**
+   * Swaps the links of every node.
+   */
+  reverse(): void {
+    let current = this.head
+    while (current !== null) {
+      let next = current.getNext()
+      current.setNext(current.getPrev())
+      current.setPrev(next)
+      current = next
+    }
+    let head = this.head
+    this.head = this.tail
+    this.tail = head
+  }
+
+  /**
+   * Merge sorts the nodes by relinking them.
+   * @param comparator
+   */
+  sort(comparator: (a: T, b: T) => number): void {
+    if (this.size < 2) {
+      return
+    }
+    let values = new Map<Node<T>, T>()
+    for (let current = this.head; current !== null; current = current.getNext()) {
+      values.set(current, current.getData())
+    }
+
+    this.head = mergeSortNodes(this.head, this.size, (a, b) => comparator(values.get(a), values.get(b)))
+    let prev: Node<T> = null
+    for (let current = this.head; current !== null; current = current.getNext()) {
+      current.setPrev(prev)
+      prev = current
+    }
+    this.tail = prev
+  }
+
+  clear(): void {
+    this.head = null
+    this.tail = null
+    this.size = 0
+  }
+
+  /**
+   * Verifies that the head has no prev and the tail no next, that every prev link mirrors the next link
+   * pointing at it, that every node belongs to list, that there are no cycles, and that the number
+   * of reachable nodes equals the size.
+   * @param list
+   */
+  validate(list: object): void {
+    if (this.head === null || this.tail === null) {
+      if (this.head !== this.tail) {
+        throw new InvariantError(`The ${this.head === null ? 'head' : 'tail'} is missing but the ${this.head === null ? 'tail' : 'head'} is set.`)
+      }
+      if (this.size !== 0) {
+        throw new InvariantError(`The list has no nodes but its length is ${this.size}.`)
+      }
+      return
+    }
+    if (this.head.getPrev() !== null) {
+      throw new InvariantError('The head has a prev link.')
+    }
+    if (this.tail.getNext() !== null) {
+      throw new InvariantError('The tail has a next link.')
+    }
+
+    let seen = new Map<Node<T>, number>()
+    let prev: Node<T> = null
+    let index = 0
+    for (let current = this.head; current !== null; current = current.getNext()) {
+      if (seen.has(current)) {
+        throw new InvariantError(`The node at index ${index - 1} links back to the node at index ${seen.get(current)}, forming a cycle.`)
+      }
+      if (current.getPrev() !== prev) {
+        throw new InvariantError(`The node at index ${index} has a prev link that does not point to the node at index ${index - 1}.`)
+      }
+      let owner = current.getOwner()
+      if (owner === null || owner.list !== list || !owner.attached) {
+        throw new InvariantError(`The node at index ${index} does not belong to this list.`)
+      }
+      seen.set(current, index)
+      prev = current
+      index += 1
+    }
+    if (prev !== this.tail) {
+      throw new InvariantError(`The last node reachable from the head, at index ${index - 1}, is not the tail.`)
+    }
+    if (index !== this.size) {
+      throw new InvariantError(`${index} nodes are reachable from the head but the length is ${this.size}.`)
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * @file NodeView
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node} from './Node'
+
+const nodes = new WeakMap<NodeView<any>, Node<any>>()
+const views = new WeakMap<Node<any>, NodeView<any>>()
+
+/**
+ * A read-only handle to a position in a {@link DLinkedList}, returned by .headNode, .tailNode, .findNode,
+ * .nodeAt and .nodes. Handles can be passed back to .insertAfterNode, .insertBeforeNode and .removeNode of the
+ * list they came from, but cannot change the links between nodes themselves.
+ *
+ * ```
+ * const dll = DLinkedList.fromArray([1,2,3])
+ * const node = dll.headNode()
+ * node.value // 1
+ * node.next().value // 2
+ * node.isHead // true
+ * ```
+ */
+export class NodeView<T> {
+
+  /**
+   * Returns the view for node, creating it on first use. A node always has the same view.
+   * @param node
+   */
+  public static of<S>(node: Node<S> | null): NodeView<S> | null {
+    if (node === null) {
+      return null
+    }
+    let view = views.get(node)
+    if (!view) {
+      view = new NodeView<S>()
+      nodes.set(view, node)
+      views.set(node, view)
+    }
+    return view
+  }
+
+  private constructor() {
+  }
+
+  /**
+   * The stored value, following the list's cloning rules.
+   */
+  get value(): T {
+    return nodeOf(this).getData()
+  }
+
+  /**
+   * True if the node is still part of a list and has nothing before it.
+   */
+  get isHead(): boolean {
+    let node = nodeOf(this)
+    return node.isAttached() && node.getPrev() === null
+  }
+
+  /**
+   * True if the node is still part of a list and has nothing after it.
+   */
+  get isTail(): boolean {
+    let node = nodeOf(this)
+    return node.isAttached() && node.getNext() === null
+  }
+
+  /**
+   * True while the node is part of a list.
+   */
+  get isAttached(): boolean {
+    return nodeOf(this).isAttached()
+  }
+
+  /**
+   * Returns the stored value, same as .value.
+   */
+  getData(): T {
+    return this.value
+  }
+
+  /**
+   * Returns a view of the following node, or null at the tail.
+   */
+  next(): NodeView<T> | null {
+    return NodeView.of(nodeOf(this).getNext())
+  }
+
+  /**
+   * Returns a view of the preceding node, or null at the head.
+   */
+  prev(): NodeView<T> | null {
+    return NodeView.of(nodeOf(this).getPrev())
+  }
+}
+
+/**
+ * Returns the node behind a view. Lists use this to accept views in place of nodes.
+ * @param view
+ */
+export const nodeOf = <T>(view: NodeView<T>): Node<T> => {
+  return nodes.get(view)
+}
@@ -0,0 +1,774 @@
+/**
+ * @file PersistentDLinkedList
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Cloner, ClonerOption, resolveCloner} from './Cloner'
+import {AsyncOptions, AbortOptions, runConcurrent, throwIfAborted} from './Concurrency'
+import {StorageMode, storeValue, storageReader} from './Node'
+import {
+  DLinkedList,
+  DLinkedListOptions,
+  filterPredicate,
+  filterGuard,
+  mapIteratee,
+  eachIteratee,
+  asyncMapIteratee,
+  asyncFilterPredicate,
+  asyncEachIteratee,
+  reduceIteratee,
+  asyncReduceIteratee
+} from './DLinkedList'
+import {DeepReadonly, asReadonly} from './DeepReadonly'
+
+/**
+ * A single immutable link. Cells are never modified once created,
+ * so any number of list versions can share them.
+ */
+interface Cons<T> {
+  readonly value: T
+  readonly rest: Cons<T> | null
+}
+
+const cons = <T>(value: T, rest: Cons<T> | null): Cons<T> => {
+  return Object.freeze({value, rest})
+}
+
+/**
+ * Copies the cells of list up to, but not including, stop and attaches tail to the copy.
+ * Everything from stop onward is left for the caller to share or replace.
+ * @param list
+ * @param stop
+ * @param tail
+ */
+const copyPrefix = <T>(list: Cons<T> | null, stop: Cons<T>, tail: Cons<T> | null): Cons<T> | null => {
+  let values = []
+  let current = list
+  while (current !== stop) {
+    values.push(current.value)
+    current = current.rest
+  }
+  let result = tail
+  for (let i = values.length - 1; i >= 0; i--) {
+    result = cons(values[i], result)
+  }
+  return result
+}
+
+/**
+ * Builds a cons list from an array, first element first.
+ * @param values
+ */
+const fromValues = <T>(values: T[]): Cons<T> | null => {
+  let result = null
+  for (let i = values.length - 1; i >= 0; i--) {
+    result = cons(values[i], result)
+  }
+  return result
+}
+
+const collect = <T>(list: Cons<T> | null): Cons<T>[] => {
+  let cells = []
+  let current = list
+  while (current !== null) {
+    cells.push(current)
+    current = current.rest
+  }
+  return cells
+}
+
+/**
+ * The two cons lists a version is read through, front stored head first and back stored tail first.
+ */
+interface Ends<T> {
+  readonly front: Cons<T> | null
+  readonly back: Cons<T> | null
+}
+
+/**
+ * When every value sits on one side, splits them between both sides so the head and tail
+ * are reachable in O(1). Returns front and back unchanged when both already hold values.
+ * @param front
+ * @param back
+ * @param size
+ */
+const balance = <T>(front: Cons<T> | null, back: Cons<T> | null, size: number): Ends<T> => {
+  if (size < 2 || (front !== null && back !== null)) {
+    return {front, back}
+  }
+  let ordered = front !== null ? collect(front) : collect(back).reverse()
+  let values = ordered.map(cell => cell.value)
+  let middle = Math.ceil(values.length / 2)
+  return {front: fromValues(values.slice(0, middle)), back: fromValues(values.slice(middle).reverse())}
+}
+
+/**
+ * Describes where a matched value lives: front cells are stored head first,
+ * back cells are stored tail first.
+ */
+interface Location<T> {
+  front: boolean
+  cell: Cons<T>
+}
+
+/**
+ * Options accepted by the PersistentDLinkedList constructor and its static constructors.
+ * Each one works as it does for a {@link DLinkedList}, see {@link DLinkedListOptions}.
+ *
+ *  ```
+ *  const list = new PersistentDLinkedList<Date>({cloner: 'deep', freeze: true})
+ *  ```
+ */
+export interface PersistentDLinkedListOptions {
+  /**
+   * How values are cloned on their way in and out of the list, see {@link ClonerOption}. Defaults to 'plain'.
+   */
+  cloner?: ClonerOption
+
+  /**
+   * Clone values once when they are inserted, deep freeze them, and hand out the frozen value on every read.
+   * Defaults to false.
+   */
+  freeze?: boolean
+
+  /**
+   * Clone values once when they are inserted and hand out read-only Proxy views on every read.
+   * Cannot be combined with freeze. Defaults to false.
+   */
+  proxy?: boolean
+}
+
+/**
+ * A persistent doubly ended list. Every method that would change a {@link DLinkedList}
+ * returns a new PersistentDLinkedList instead, sharing every unchanged cell with the
+ * previous version. Old versions remain fully usable.
+ *
+ * Values are stored in two immutable cons lists, one from the head and one from the tail,
+ * so append and prepend are O(1).
+ *
+ * ```
+ * const a = PersistentDLinkedList.fromArray([1,2,3])
+ * const b = a.append(4)
+ * a.toArray() // [1,2,3]
+ * b.toArray() // [1,2,3,4]
+ * ```
+ */
+export class PersistentDLinkedList<T> {
+
+  /**
+   * Accepts an array and returns a PersistentDLinkedList instance.
+   * @param arr
+   * @param options
+   */
+  public static fromArray<S>(arr: S[], options?: PersistentDLinkedListOptions): PersistentDLinkedList<S> {
+    let list = new PersistentDLinkedList<S>(options)
+    return list.create(fromValues(arr.map(value => list.store(value))), null, arr.length)
+  }
+
+  /**
+   * Accepts any iterable and returns a PersistentDLinkedList instance.
+   * @param iterable
+   * @param options
+   */
+  public static from<S>(iterable: Iterable<S>, options?: PersistentDLinkedListOptions): PersistentDLinkedList<S> {
+    return PersistentDLinkedList.fromArray(Array.from(iterable), options)
+  }
+
+  /**
+   * Creates a PersistentDLinkedList holding the values of a mutable {@link DLinkedList},
+   * stored with the same cloner, freeze and proxy options.
+   *
+   * ```
+   * const dll = DLinkedList.fromArray([new Date()], {cloner: 'deep'})
+   * PersistentDLinkedList.fromDLinkedList(dll).cloner // 'deep'
+   * ```
+   *
+   * @param list
+   */
+  public static fromDLinkedList<S>(list: DLinkedList<S>): PersistentDLinkedList<S> {
+    return PersistentDLinkedList.fromArray(list.toArray(), {cloner: list.cloner, freeze: list.freeze, proxy: list.proxy})
+  }
+
+  readonly cloner: ClonerOption
+  readonly freeze: boolean
+  readonly proxy: boolean
+  private readonly cloneFn: Cloner
+  private readonly storage: StorageMode
+  private readonly reader: Cloner
+  private front: Cons<T> | null = null
+  private back: Cons<T> | null = null
+  private size: number = 0
+  private ends: Ends<T> = null
+
+  /**
+   *
+   * ```
+   * const list = new PersistentDLinkedList<Map<string, number>>({cloner: 'deep'})
+   * ```
+   *
+   * @param options
+   */
+  constructor(options: PersistentDLinkedListOptions = {}) {
+    this.cloner = options.cloner || 'plain'
+    this.freeze = !!options.freeze
+    this.proxy = !!options.proxy
+    if (this.freeze && this.proxy) {
+      throw new TypeError('The freeze and proxy options cannot be combined.')
+    }
+    this.storage = this.freeze ? 'freeze' : this.proxy ? 'proxy' : 'clone'
+    this.cloneFn = resolveCloner(this.cloner)
+    this.reader = storageReader(this.cloneFn, this.storage)
+  }
+
+  /**
+   * Number of values in the list.
+   */
+  get length(): number {
+    return this.size
+  }
+
+  /**
+   * Returns the value stored in the first position of the list, read as the cloner and storage options describe.
+   */
+  head(): T | null {
+    let {front, back} = this.balanced()
+    if (front !== null) {
+      return this.reader(front.value)
+    }
+    return back !== null ? this.reader(back.value) : null
+  }
+
+  /**
+   * Returns the value stored in the last position of the list, read as the cloner and storage options describe.
+   */
+  tail(): T | null {
+    let {front, back} = this.balanced()
+    if (back !== null) {
+      return this.reader(back.value)
+    }
+    return front !== null ? this.reader(front.value) : null
+  }
+
+  /**
+   * Returns a new list with data added to the front.
+   *
+   * ```
+   * const a = PersistentDLinkedList.fromArray([2,3])
+   * a.prepend(1) // [1,2,3], a is still [2,3]
+   * ```
+   *
+   * @param data - any value matching T
+   */
+  prepend(data: T): PersistentDLinkedList<T> {
+    return this.create(cons(this.store(data), this.front), this.back, this.size + 1)
+  }
+
+  /**
+   * Returns a new list with data added to the end.
+   *
+   * ```
+   * const a = PersistentDLinkedList.fromArray([1,2])
+   * a.append(3) // [1,2,3], a is still [1,2]
+   * ```
+   *
+   * @param data - any value matching T
+   */
+  append(data: T): PersistentDLinkedList<T> {
+    return this.create(this.front, cons(this.store(data), this.back), this.size + 1)
+  }
+
+  /**
+   * Returns a new list with data inserted after the first value predicate function returns truthy for.
+   * @param predicate
+   * @param data
+   */
+  insertAfter(predicate: filterPredicate<T, PersistentDLinkedList<T>>, data: T): PersistentDLinkedList<T> {
+    let {front, cell} = this.locateOrThrow(predicate)
+    let value = this.store(data)
+    if (front) {
+      let f = copyPrefix(this.front, cell, cons(cell.value, cons(value, cell.rest)))
+      return this.create(f, this.back, this.size + 1)
+    }
+    let b = copyPrefix(this.back, cell, cons(value, cell))
+    return this.create(this.front, b, this.size + 1)
+  }
+
+  /**
+   * Returns a new list with data inserted before the first value predicate function returns truthy for.
+   * @param predicate
+   * @param data
+   */
+  insertBefore(predicate: filterPredicate<T, PersistentDLinkedList<T>>, data: T): PersistentDLinkedList<T> {
+    let {front, cell} = this.locateOrThrow(predicate)
+    let value = this.store(data)
+    if (front) {
+      let f = copyPrefix(this.front, cell, cons(value, cell))
+      return this.create(f, this.back, this.size + 1)
+    }
+    let b = copyPrefix(this.back, cell, cons(cell.value, cons(value, cell.rest)))
+    return this.create(this.front, b, this.size + 1)
+  }
+
+  /**
+   * Returns a new list without the first value predicate function returns truthy for.
+   * Returns the same list when nothing matches.
+   * @param predicate
+   */
+  remove(predicate: filterPredicate<T, PersistentDLinkedList<T>>): PersistentDLinkedList<T> {
+    let location = this.locate(predicate)
+    if (!location) {
+      return this
+    }
+    let {front, cell} = location
+    if (front) {
+      return this.create(copyPrefix(this.front, cell, cell.rest), this.back, this.size - 1)
+    }
+    return this.create(this.front, copyPrefix(this.back, cell, cell.rest), this.size - 1)
+  }
+
+  /**
+   * Returns a new list without its first value.
+   */
+  removeHead(): PersistentDLinkedList<T> {
+    let {front, back} = this.balanced()
+    if (front !== null) {
+      return this.create(front.rest, back, this.size - 1)
+    }
+    if (back !== null) {
+      return this.create(null, back.rest, this.size - 1)
+    }
+    return this
+  }
+
+  /**
+   * Returns a new list without its last value.
+   */
+  removeTail(): PersistentDLinkedList<T> {
+    let {front, back} = this.balanced()
+    if (back !== null) {
+      return this.create(front, back.rest, this.size - 1)
+    }
+    if (front !== null) {
+      return this.create(front.rest, null, this.size - 1)
+    }
+    return this
+  }
+
+  /**
+   * Returns an empty list.
+   */
+  clear(): PersistentDLinkedList<T> {
+    return this.create(null, null, 0)
+  }
+
+  /**
+   * Creates an array from the values in list.
+   * If values are plain objects they will be deeply cloned.
+   */
+  toArray(): T[] {
+    return Array.from(this.values())
+  }
+
+  /**
+   * Creates a mutable {@link DLinkedList} holding the values of this list, stored with the same cloner, freeze and
+   * proxy options. Options passed here, such as a layout or capacity, are added to those.
+   *
+   * ```
+   * const list = PersistentDLinkedList.fromArray([1,2,3], {freeze: true})
+   * list.toDLinkedList({layout: 'unrolled'}).freeze // true
+   * ```
+   *
+   * @param options
+   */
+  toDLinkedList(options?: DLinkedListOptions<T>): DLinkedList<T> {
+    return DLinkedList.fromArray(this.toArray(), {...this.storageOptions(), ...options})
+  }
+
+  /**
+   * Iterates the cloned list values, from head to tail.
+   */
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.values()
+  }
+
+  /**
+   * Asynchronously iterates the cloned list values, from head to tail.
+   */
+  async * [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    yield* this.values()
+  }
+
+  /**
+   * Returns an iterator over the cloned list values, from head to tail.
+   */
+  * values(): IterableIterator<T> {
+    for (let cell of this.cells()) {
+      yield this.reader(cell.value)
+    }
+  }
+
+  /**
+   * Returns an iterator over the cloned list values, from tail to head.
+   */
+  * valuesRight(): IterableIterator<T> {
+    for (let cell of this.cellsRight()) {
+      yield this.reader(cell.value)
+    }
+  }
+
+  /**
+   * Returns an iterator of [index, value] pairs, from head to tail.
+   */
+  * entries(): IterableIterator<[number, T]> {
+    let index = 0
+    for (let value of this.values()) {
+      yield [index, value]
+      index += 1
+    }
+  }
+
+  /**
+   * Returns the first value predicate function returns truthy for.
+   * @param predicate
+   */
+  find<S extends DeepReadonly<T>>(predicate: filterGuard<T, S, PersistentDLinkedList<T>>): S | null
+  find(predicate: filterPredicate<T, PersistentDLinkedList<T>>): T | null
+  find(predicate: filterPredicate<T, PersistentDLinkedList<T>>): T | null {
+    let location = this.locate(predicate)
+    return location ? this.reader(location.cell.value) : null
+  }
+
+  /**
+   * Returns a new list from the values returned by iteratee function.
+   * @param iteratee
+   */
+  map<V>(iteratee?: mapIteratee<T, V, PersistentDLinkedList<T>>): PersistentDLinkedList<V> {
+    let mapFn = iteratee ? iteratee : ident => ident
+    let results = []
+    for (let [index, value] of this.entries()) {
+      results.push(mapFn(asReadonly(value), index, this))
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Returns a new list from the values returned by iteratee function, in reverse order.
+   * @param iteratee
+   */
+  mapRight<V>(iteratee?: mapIteratee<T, V, PersistentDLinkedList<T>>): PersistentDLinkedList<V> {
+    let mapFn = iteratee ? iteratee : ident => ident
+    let results = []
+    for (let [index, value] of this.entriesRight()) {
+      results.push(mapFn(asReadonly(value), index, this))
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Asynchronously returns a new list from the values resolved by iteratee function.
+   * Iteratees are dispatched all at once unless options.concurrency limits how many may be pending.
+   * @param iteratee
+   * @param options
+   */
+  async asyncMap<V>(iteratee: asyncMapIteratee<T, V, PersistentDLinkedList<T>>,
+                    options?: AsyncOptions): Promise<PersistentDLinkedList<V>> {
+    let results = await runConcurrent(this.toArray(), (value, index) => iteratee(asReadonly(value), index, this), options)
+    return this.derive(results)
+  }
+
+  /**
+   * Asynchronously returns a new list from the values resolved by iteratee function, in reverse order.
+   * Iteratees are dispatched all at once unless options.concurrency limits how many may be pending.
+   * @param iteratee
+   * @param options
+   */
+  async asyncMapRight<V>(iteratee: asyncMapIteratee<T, V, PersistentDLinkedList<T>>,
+                         options?: AsyncOptions): Promise<PersistentDLinkedList<V>> {
+    let last = this.size - 1
+    let results = await runConcurrent(Array.from(this.valuesRight()), (value, index) => {
+      return iteratee(asReadonly(value), last - index, this)
+    }, options)
+    return this.derive(results)
+  }
+
+  /**
+   * Asynchronously returns a new list of all values predicate resolves truthy for.
+   * Accepts the same options as {@link PersistentDLinkedList.asyncMap}.
+   * @param predicate
+   * @param options
+   */
+  async asyncFilter(predicate: asyncFilterPredicate<T, PersistentDLinkedList<T>>,
+                    options?: AsyncOptions): Promise<PersistentDLinkedList<T>> {
+    let values = this.toArray()
+    let matches = await runConcurrent(values, (value, index) => predicate(asReadonly(value), index, this), options)
+    return this.derive(values.filter((value, index) => matches[index]))
+  }
+
+  /**
+   * Asynchronously runs iteratee with the cloned value found in each position.
+   * Accepts the same options as {@link PersistentDLinkedList.asyncMap}.
+   * @param iteratee
+   * @param options
+   */
+  async asyncEach(iteratee: asyncEachIteratee<T, PersistentDLinkedList<T>>,
+                  options?: AsyncOptions): Promise<PersistentDLinkedList<T>> {
+    await runConcurrent(this.toArray(), (value, index) => iteratee(asReadonly(value), index, this), options)
+    return this
+  }
+
+  /**
+   * Asynchronously returns the first value, in list order, predicate resolves truthy for.
+   * Once a match is found, no predicates for later values are dispatched.
+   * @param predicate
+   * @param options
+   */
+  async asyncFind(predicate: asyncFilterPredicate<T, PersistentDLinkedList<T>>, options?: AsyncOptions): Promise<T | null> {
+    let values = this.toArray()
+    let matches = await runConcurrent(values, (value, index) => {
+      return predicate(asReadonly(value), index, this)
+    }, options, (i, match) => !!match)
+    let index = matches.findIndex(match => !!match)
+    return index === -1 ? null : values[index]
+  }
+
+  /**
+   * Asynchronously resolves true if predicate resolves truthy for any value.
+   * Stops dispatching predicates once one resolves truthy.
+   * @param predicate
+   * @param options
+   */
+  async asyncSome(predicate: asyncFilterPredicate<T, PersistentDLinkedList<T>>, options?: AsyncOptions): Promise<boolean> {
+    let matches = await runConcurrent(this.toArray(), (value, index) => {
+      return predicate(asReadonly(value), index, this)
+    }, options, (i, match) => !!match)
+    return matches.some(match => !!match)
+  }
+
+  /**
+   * Asynchronously resolves true if predicate resolves truthy for every value.
+   * Stops dispatching predicates once one resolves falsy.
+   * @param predicate
+   * @param options
+   */
+  async asyncEvery(predicate: asyncFilterPredicate<T, PersistentDLinkedList<T>>, options?: AsyncOptions): Promise<boolean> {
+    let failed = false
+    await runConcurrent(this.toArray(), (value, index) => predicate(asReadonly(value), index, this), options, (i, match) => {
+      failed = failed || !match
+      return !match
+    })
+    return !failed
+  }
+
+  /**
+   * Runs iteratee with the cloned value found in each position, in order.
+   * @param iteratee
+   */
+  each(iteratee: eachIteratee<T, PersistentDLinkedList<T>>): PersistentDLinkedList<T> {
+    for (let [index, value] of this.entries()) {
+      iteratee(asReadonly(value), index, this)
+    }
+    return this
+  }
+
+  /**
+   * Runs iteratee with the cloned value found in each position, in reverse order.
+   * @param iteratee
+   */
+  eachRight(iteratee: eachIteratee<T, PersistentDLinkedList<T>>): PersistentDLinkedList<T> {
+    for (let [index, value] of this.entriesRight()) {
+      iteratee(asReadonly(value), index, this)
+    }
+    return this
+  }
+
+  /**
+   * Returns a new list of all values predicate function returns truthy for.
+   * @param predicate
+   */
+  filter<S extends DeepReadonly<T>>(predicate: filterGuard<T, S, PersistentDLinkedList<T>>): PersistentDLinkedList<S>
+  filter(predicate: filterPredicate<T, PersistentDLinkedList<T>>): PersistentDLinkedList<T>
+  filter(predicate: filterPredicate<T, PersistentDLinkedList<T>>): PersistentDLinkedList<T> {
+    let results = []
+    for (let [index, value] of this.entries()) {
+      if (predicate(asReadonly(value), index, this)) {
+        results.push(value)
+      }
+    }
+    return this.derive(results)
+  }
+
+  /**
+   * Reduces list values to a single value.
+   * @param iteratee
+   * @param accumulator
+   */
+  reduce<A>(iteratee: reduceIteratee<A, T, PersistentDLinkedList<T>>, accumulator: A): A {
+    let acc = accumulator
+    for (let [index, value] of this.entries()) {
+      acc = iteratee(acc, asReadonly(value), index, this)
+    }
+    return acc
+  }
+
+  /**
+   * Reduces list values to a single value, in reverse order.
+   * @param iteratee
+   * @param accumulator
+   */
+  reduceRight<A>(iteratee: reduceIteratee<A, T, PersistentDLinkedList<T>>, accumulator: A): A {
+    let acc = accumulator
+    for (let [index, value] of this.entriesRight()) {
+      acc = iteratee(acc, asReadonly(value), index, this)
+    }
+    return acc
+  }
+
+  /**
+   * Asynchronously reduces list values to a single value.
+   * @param iteratee
+   * @param accumulator
+   * @param options
+   */
+  async asyncReduce<A>(iteratee: asyncReduceIteratee<A, T, PersistentDLinkedList<T>>,
+                       accumulator: A, options: AbortOptions = {}): Promise<A> {
+    let acc = accumulator
+    for (let [index, value] of this.entries()) {
+      throwIfAborted(options.signal)
+      acc = await Promise.resolve(iteratee(acc, asReadonly(value), index, this))
+    }
+    return acc
+  }
+
+  /**
+   * Asynchronously reduces list values to a single value, in reverse order.
+   * @param iteratee
+   * @param accumulator
+   * @param options
+   */
+  async asyncReduceRight<A>(iteratee: asyncReduceIteratee<A, T, PersistentDLinkedList<T>>,
+                            accumulator: A, options: AbortOptions = {}): Promise<A> {
+    let acc = accumulator
+    for (let [index, value] of this.entriesRight()) {
+      throwIfAborted(options.signal)
+      acc = await Promise.resolve(iteratee(acc, asReadonly(value), index, this))
+    }
+    return acc
+  }
+
+  /**
+   * Returns a list sharing this one's options with the given cells.
+   * @param front
+   * @param back
+   * @param size
+   */
+  private create(front: Cons<T> | null, back: Cons<T> | null, size: number): PersistentDLinkedList<T> {
+    let list = new PersistentDLinkedList<T>(this.storageOptions())
+    list.front = front
+    list.back = back
+    list.size = size
+    return list
+  }
+
+  /**
+   * Builds a new list from values computed off this one, keeping its options.
+   * @param values
+   */
+  private derive<V>(values: V[]): PersistentDLinkedList<V> {
+    return PersistentDLinkedList.fromArray(values, this.storageOptions())
+  }
+
+  private storageOptions(): PersistentDLinkedListOptions {
+    return {cloner: this.cloner, freeze: this.freeze, proxy: this.proxy}
+  }
+
+  /**
+   * Returns data as this list keeps it, see {@link storeValue}.
+   * @param data
+   */
+  private store(data: T): T {
+    return storeValue(data, this.cloneFn, this.storage)
+  }
+
+  /**
+   * Cells from head to tail.
+   */
+  private * cells(): IterableIterator<Cons<T>> {
+    let current = this.front
+    while (current !== null) {
+      yield current
+      current = current.rest
+    }
+    let back = collect(this.back)
+    for (let i = back.length - 1; i >= 0; i--) {
+      yield back[i]
+    }
+  }
+
+  /**
+   * Cells from tail to head.
+   */
+  private * cellsRight(): IterableIterator<Cons<T>> {
+    let current = this.back
+    while (current !== null) {
+      yield current
+      current = current.rest
+    }
+    let front = collect(this.front)
+    for (let i = front.length - 1; i >= 0; i--) {
+      yield front[i]
+    }
+  }
+
+  /**
+   * [index, value] pairs from tail to head.
+   */
+  private * entriesRight(): IterableIterator<[number, T]> {
+    let index = this.size - 1
+    for (let value of this.valuesRight()) {
+      yield [index, value]
+      index -= 1
+    }
+  }
+
+  private locate(predicate: filterPredicate<T, PersistentDLinkedList<T>>): Location<T> | null {
+    let index = 0
+    let current = this.front
+    while (current !== null) {
+      if (predicate(asReadonly(this.reader(current.value)), index, this)) {
+        return {front: true, cell: current}
+      }
+      current = current.rest
+      index += 1
+    }
+    let back = collect(this.back)
+    for (let i = back.length - 1; i >= 0; i--) {
+      if (predicate(asReadonly(this.reader(back[i].value)), index, this)) {
+        return {front: false, cell: back[i]}
+      }
+      index += 1
+    }
+    return null
+  }
+
+  private locateOrThrow(predicate: filterPredicate<T, PersistentDLinkedList<T>>): Location<T> {
+    let location = this.locate(predicate)
+    if (!location) {
+      throw new Error('Unable to find a node matching predicate.')
+    }
+    return location
+  }
+
+  /**
+   * The ends of this list split by {@link balance}, computed on first use. They are kept beside front and back
+   * instead of replacing them, so a version never changes once created and iterations that are underway,
+   * including ones whose iteratees read the head or tail, see the same cells throughout.
+   */
+  private balanced(): Ends<T> {
+    if (this.ends === null) {
+      this.ends = balance(this.front, this.back, this.size)
+    }
+    return this.ends
+  }
+}
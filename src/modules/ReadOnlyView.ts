@@ -0,0 +1,165 @@
+/**
+ * @file ReadOnlyView
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import cloneDeep from 'lodash.clonedeep'
+
+/**
+ * Thrown when code attempts to modify a read-only view of a stored list value.
+ */
+export class ReadOnlyViewError extends TypeError {
+  readonly name: string = 'ReadOnlyViewError'
+
+  constructor(action: string) {
+    super(`Cannot ${action} on a read-only list value. Use toMutable() to get a writable copy.`)
+  }
+}
+
+const views = new WeakMap<object, object>()
+const targets = new WeakMap<object, object>()
+
+const MUTATORS = {
+  Map: ['set', 'delete', 'clear'],
+  Set: ['add', 'delete', 'clear'],
+  Date: Object.getOwnPropertyNames(Date.prototype).filter(name => name.startsWith('set'))
+}
+
+/**
+ * Name of the built in type whose methods need their real receiver, if target is one.
+ * @param target
+ */
+const slotType = (target: object): string | null => {
+  if (target instanceof Map) {
+    return 'Map'
+  }
+  if (target instanceof Set) {
+    return 'Set'
+  }
+  if (target instanceof Date) {
+    return 'Date'
+  }
+  return null
+}
+
+/**
+ * Wraps iterators returned from Map and Set methods so the values they produce are views as well.
+ * @param iterator
+ */
+function* viewIterator(iterator: IterableIterator<any>): IterableIterator<any> {
+  for (let value of iterator) {
+    yield readOnlyView(value)
+  }
+}
+
+const isIterator = (value: any): boolean => {
+  return value !== null && typeof value === 'object' && typeof value.next === 'function'
+    && typeof value[Symbol.iterator] === 'function'
+}
+
+const handler: ProxyHandler<any> = {
+  get(target, prop) {
+    let type = slotType(target)
+    let value = Reflect.get(target, prop)
+    let descriptor = Reflect.getOwnPropertyDescriptor(target, prop)
+
+    // A Proxy must report a non-writable, non-configurable property as its own value, and such a property is frozen.
+    if (descriptor && !descriptor.configurable && descriptor.writable === false) {
+      return value
+    }
+
+    if (type && typeof value === 'function') {
+      if (MUTATORS[type].indexOf(prop) !== -1) {
+        return () => {
+          throw new ReadOnlyViewError(`call ${type}.${String(prop)}()`)
+        }
+      }
+      return (...args) => {
+        let result = value.apply(target, args)
+        return isIterator(result) ? viewIterator(result) : readOnlyView(result)
+      }
+    }
+
+    return readOnlyView(value)
+  },
+  set(target, prop) {
+    throw new ReadOnlyViewError(`set property "${String(prop)}"`)
+  },
+  defineProperty(target, prop) {
+    throw new ReadOnlyViewError(`define property "${String(prop)}"`)
+  },
+  deleteProperty(target, prop) {
+    throw new ReadOnlyViewError(`delete property "${String(prop)}"`)
+  },
+  setPrototypeOf() {
+    throw new ReadOnlyViewError('set the prototype')
+  },
+  preventExtensions() {
+    throw new ReadOnlyViewError('prevent extensions')
+  }
+}
+
+/**
+ * Returns a read-only Proxy over value. Nested objects are wrapped lazily as they are read,
+ * and the same object always yields the same view. Primitives and functions are returned as is.
+ *
+ * ```
+ * const view = readOnlyView({a: {b: 1}})
+ * view.a.b // 1
+ * view.a.b = 2 // throws ReadOnlyViewError
+ * ```
+ *
+ * @param value
+ */
+export const readOnlyView = <V>(value: V): V => {
+  if (value === null || typeof value !== 'object' || targets.has(value as any)) {
+    return value
+  }
+  let target = value as any
+  let view = views.get(target)
+  if (!view) {
+    view = new Proxy(target, handler)
+    views.set(target, view)
+    targets.set(view, target)
+  }
+  return view as any
+}
+
+/**
+ * Returns true when value is a view created by {@link readOnlyView}.
+ * @param value
+ */
+export const isReadOnlyView = (value: any): boolean => {
+  return value !== null && typeof value === 'object' && targets.has(value)
+}
+
+/**
+ * Returns the object a view wraps, or value itself when it is not a view.
+ * The result is the stored value, so it must not be handed to callers.
+ * @param value
+ */
+export const viewTarget = <V>(value: V): V => {
+  return isReadOnlyView(value) ? targets.get(value as any) as any : value
+}
+
+/**
+ * Returns a real, writable deep copy of a read-only view.
+ * Values that are not views are returned unchanged.
+ *
+ * ```
+ * const copy = toMutable(dll.head())
+ * copy.a = 2 // fine
+ * ```
+ *
+ * @param value
+ */
+export const toMutable = <V>(value: V): V => {
+  return isReadOnlyView(value) ? cloneDeep(viewTarget(value)) : value
+}
+
+/**
+ * Alias of {@link toMutable}.
+ */
+export const unwrap = toMutable
@@ -0,0 +1,168 @@
+/**
+ * @file Serialization
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import isPlainObject from 'lodash.isplainobject'
+import {StringDecoder} from 'string_decoder'
+
+/**
+ * Converts values JSON cannot represent to and from a JSON friendly form.
+ * Encoded values are written as `{"$codec": name, "value": encoded}`.
+ *
+ * ```
+ * const pointCodec: Codec<Point, [number, number]> = {
+ *   name: 'Point',
+ *   test: (v) => v instanceof Point,
+ *   encode: (p) => [p.x, p.y],
+ *   decode: ([x, y]) => new Point(x, y)
+ * }
+ * ```
+ */
+export interface Codec<V = any, E = any> {
+  /**
+   * Unique name written alongside encoded values.
+   */
+  name: string
+
+  /**
+   * Returns true for values this codec encodes.
+   */
+  test(value: any): boolean
+
+  encode(value: V): E
+
+  decode(encoded: E): V
+}
+
+/**
+ * Function signature accepted by .fromJSON, same as the JSON.parse reviver.
+ */
+export type JSONReviver = (key: string, value: any) => any
+
+/**
+ * Options accepted by .toJSON, .toNDJSON
+ */
+export interface SerializeOptions {
+  codecs?: Codec[]
+}
+
+/**
+ * Options accepted by .fromJSON, .fromNDJSON
+ */
+export interface DeserializeOptions {
+  codecs?: Codec[]
+  reviver?: JSONReviver
+}
+
+/**
+ * Encodes Dates as ISO strings.
+ */
+export const dateCodec: Codec<Date, string> = {
+  name: 'Date',
+  test: (value) => value instanceof Date,
+  encode: (value) => value.toISOString(),
+  decode: (encoded) => new Date(encoded)
+}
+
+/**
+ * Encodes Maps as arrays of [key, value] pairs.
+ */
+export const mapCodec: Codec<Map<any, any>, [any, any][]> = {
+  name: 'Map',
+  test: (value) => value instanceof Map,
+  encode: (value) => Array.from(value.entries()),
+  decode: (encoded) => new Map(encoded)
+}
+
+/**
+ * Encodes Sets as arrays.
+ */
+export const setCodec: Codec<Set<any>, any[]> = {
+  name: 'Set',
+  test: (value) => value instanceof Set,
+  encode: (value) => Array.from(value),
+  decode: (encoded) => new Set(encoded)
+}
+
+const CODEC_KEY = '$codec'
+
+/**
+ * Recursively replaces values matched by a codec with their encoded form.
+ * @param value
+ * @param codecs
+ */
+export const encodeValue = (value: any, codecs: Codec[] = []): any => {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  for (let codec of codecs) {
+    if (codec.test(value)) {
+      return {[CODEC_KEY]: codec.name, value: encodeValue(codec.encode(value), codecs)}
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => encodeValue(item, codecs))
+  }
+  if (isPlainObject(value)) {
+    let result = {}
+    Object.keys(value).forEach((key) => {
+      result[key] = encodeValue(value[key], codecs)
+    })
+    return result
+  }
+  return value
+}
+
+/**
+ * Recursively restores values written by {@link encodeValue}.
+ * Throws when an encoded value names a codec that was not supplied.
+ * @param value
+ * @param codecs
+ */
+export const decodeValue = (value: any, codecs: Codec[] = []): any => {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => decodeValue(item, codecs))
+  }
+  if (typeof value[CODEC_KEY] === 'string') {
+    let codec = codecs.find(c => c.name === value[CODEC_KEY])
+    if (!codec) {
+      throw new Error(`No codec named "${value[CODEC_KEY]}" was provided.`)
+    }
+    return codec.decode(decodeValue(value.value, codecs))
+  }
+  let result = {}
+  Object.keys(value).forEach((key) => {
+    result[key] = decodeValue(value[key], codecs)
+  })
+  return result
+}
+
+/**
+ * Splits a stream of text chunks into lines, without holding more than one partial line in memory.
+ * Buffers are decoded as UTF-8, including characters split across chunks. Blank lines are skipped.
+ * @param chunks
+ */
+export async function* readLines(chunks: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncIterableIterator<string> {
+  let decoder = new StringDecoder('utf8')
+  let buffered = ''
+  for await (let chunk of chunks) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.write(chunk)
+    let lines = buffered.split('\n')
+    buffered = lines.pop()
+    for (let line of lines) {
+      if (line.trim() !== '') {
+        yield line
+      }
+    }
+  }
+  buffered += decoder.end()
+  if (buffered.trim() !== '') {
+    yield buffered
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * @file SortedDLinkedList
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node} from './Node'
+import {NodeView} from './NodeView'
+import {DLinkedList, DLinkedListOptions, sortComparator, naturalOrder} from './DLinkedList'
+
+/**
+ * Options accepted by the SortedDLinkedList constructor and its static constructors.
+ *
+ *  ```
+ *  const byAge = new SortedDLinkedList<User>({comparator: (a, b) => a.age - b.age})
+ *  ```
+ */
+export interface SortedDLinkedListOptions<T> extends DLinkedListOptions<T> {
+  /**
+   * Order the list is kept in. Defaults to {@link naturalOrder}.
+   */
+  comparator?: sortComparator<T>
+}
+
+/**
+ * A {@link DLinkedList} that keeps its values in comparator order.
+ *
+ * Every insert, including append, prepend, insertAt, splice and the node based inserts, places the value at its
+ * sorted position instead. Values equal to existing ones are placed after them. Inserts search from the tail,
+ * so values that arrive mostly in order are added in constant time.
+ *
+ * ```
+ * const dll = SortedDLinkedList.fromArray([5,1,3])
+ * dll.append(2).prepend(4) // [1,2,3,4,5]
+ * [...dll.range(2, 4)] // [2,3]
+ * ```
+ */
+export class SortedDLinkedList<T> extends DLinkedList<T> {
+
+  /**
+   * Accepts an array and returns a SortedDLinkedList instance holding its values in sorted order.
+   * @param arr
+   * @param options
+   */
+  public static fromArray<S>(arr: S[], options?: SortedDLinkedListOptions<S>): SortedDLinkedList<S> {
+    let dll = new SortedDLinkedList<S>(options)
+    dll.fromArray(arr)
+    return dll
+  }
+
+  /**
+   * Accepts any iterable and returns a SortedDLinkedList instance holding its values in sorted order.
+   * @param iterable
+   * @param options
+   */
+  public static from<S>(iterable: Iterable<S>, options?: SortedDLinkedListOptions<S>): SortedDLinkedList<S> {
+    let dll = new SortedDLinkedList<S>(options)
+    for (let value of iterable) {
+      dll.append(value)
+    }
+    return dll
+  }
+
+  readonly comparator: sortComparator<T>
+
+  /**
+   *
+   * ```
+   * const dll = new SortedDLinkedList<string>({comparator: (a, b) => a.localeCompare(b)})
+   * ```
+   *
+   * @param options
+   */
+  constructor(options: SortedDLinkedListOptions<T> = {}) {
+    let {comparator, ...listOptions} = options
+    super(listOptions)
+    this.comparator = comparator || naturalOrder
+  }
+
+  /**
+   * Inserts data at its sorted position, after any equal values.
+   *
+   * ```
+   * const dll = SortedDLinkedList.fromArray([1,3])
+   * dll.insertSorted(2) // [1,2,3]
+   * ```
+   *
+   * @param data
+   */
+  insertSorted(data: T): SortedDLinkedList<T> {
+    let current = this.tail_node
+    while (current !== null && this.comparator(current.getData(), data) > 0) {
+      current = current.getPrev()
+    }
+
+    if (current === null) {
+      super.prepend(data)
+    } else if (current === this.tail_node) {
+      super.append(data)
+    } else {
+      super.insertBeforeNode(current.getNext(), data)
+    }
+    return this
+  }
+
+  /**
+   * Inserts data at its sorted position, see {@link SortedDLinkedList.insertSorted}.
+   * @param data
+   */
+  append(data: T): SortedDLinkedList<T> {
+    return this.insertSorted(data)
+  }
+
+  /**
+   * Inserts data at its sorted position, see {@link SortedDLinkedList.insertSorted}.
+   * @param data
+   */
+  prepend(data: T): SortedDLinkedList<T> {
+    return this.insertSorted(data)
+  }
+
+  /**
+   * Inserts data at its sorted position, see {@link SortedDLinkedList.insertSorted}.
+   * The node is still checked, so foreign and removed nodes throw as they do on a {@link DLinkedList}.
+   * @param view
+   * @param data
+   */
+  insertAfterNode(view: NodeView<T> | Node<T>, data: T): SortedDLinkedList<T> {
+    if (view) {
+      this.ownNode(view)
+      return this.insertSorted(data)
+    }
+    throw new Error('Not able to insert data.')
+  }
+
+  /**
+   * Inserts data at its sorted position, see {@link SortedDLinkedList.insertSorted}.
+   * The node is still checked, so foreign and removed nodes throw as they do on a {@link DLinkedList}.
+   * @param view
+   * @param data
+   */
+  insertBeforeNode(view: NodeView<T> | Node<T>, data: T): SortedDLinkedList<T> {
+    if (view) {
+      this.ownNode(view)
+      return this.insertSorted(data)
+    }
+    throw new Error('Unable to insert data.')
+  }
+
+  /**
+   * Inserts data at its sorted position, see {@link SortedDLinkedList.insertSorted}.
+   * The index is still checked, so out of bounds indexes throw as they do on a {@link DLinkedList}.
+   * @param index
+   * @param data
+   */
+  insertAt(index: number, data: T): SortedDLinkedList<T> {
+    this.normalizeIndex(index, this.length)
+    return this.insertSorted(data)
+  }
+
+  /**
+   * Removes the node at index and inserts data at its sorted position, reported as one change.
+   * @param index
+   * @param data
+   */
+  setAt(index: number, data: T): SortedDLinkedList<T> {
+    return this.replaceNode(this.nodeAt(index), data)
+  }
+
+  /**
+   * Removes the provided node and inserts data at its sorted position, reported as one change.
+   * @param view
+   * @param data
+   */
+  replaceNode(view: NodeView<T> | Node<T>, data: T): SortedDLinkedList<T> {
+    this.batch(() => {
+      this.removeNode(view)
+      this.insertSorted(data)
+    })
+    return this
+  }
+
+  /**
+   * The list is always sorted, so this only accepts its own comparator and leaves the list as it is.
+   * Use .sorted to get a copy in a different order.
+   * @param comparator
+   */
+  sort(comparator: sortComparator<T> = this.comparator): SortedDLinkedList<T> {
+    if (comparator !== this.comparator) {
+      throw new TypeError('A SortedDLinkedList can only be ordered by its own comparator, use .sorted() for a copy.')
+    }
+    return this
+  }
+
+  /**
+   * Moves every node of other into this list in constant time, see {@link DLinkedList.absorb},
+   * then restores comparator order by relinking.
+   * @param other
+   */
+  absorb(other: DLinkedList<T>): SortedDLinkedList<T> {
+    this.batch(() => {
+      super.absorb(other)
+      super.sort(this.comparator)
+    })
+    return this
+  }
+
+  /**
+   * Reversing would break comparator order, so this always throws a TypeError.
+   * Use .reverse or .valuesRight to iterate from the tail.
+   */
+  reverseInPlace(): SortedDLinkedList<T> {
+    throw new TypeError('A SortedDLinkedList cannot be reversed, use .reverse() to iterate from the tail.')
+  }
+
+  /**
+   * Moving a node would break comparator order, so this always throws a TypeError.
+   */
+  moveToHead(view: NodeView<T> | Node<T>): SortedDLinkedList<T> {
+    throw new TypeError('Nodes of a SortedDLinkedList cannot be moved.')
+  }
+
+  /**
+   * Moving a node would break comparator order, so this always throws a TypeError.
+   */
+  moveToTail(view: NodeView<T> | Node<T>): SortedDLinkedList<T> {
+    throw new TypeError('Nodes of a SortedDLinkedList cannot be moved.')
+  }
+
+  /**
+   * Moving a node would break comparator order, so this always throws a TypeError.
+   */
+  moveBeforeNode(view: NodeView<T> | Node<T>, target: NodeView<T> | Node<T>): SortedDLinkedList<T> {
+    throw new TypeError('Nodes of a SortedDLinkedList cannot be moved.')
+  }
+
+  /**
+   * Moving a node would break comparator order, so this always throws a TypeError.
+   */
+  moveAfterNode(view: NodeView<T> | Node<T>, target: NodeView<T> | Node<T>): SortedDLinkedList<T> {
+    throw new TypeError('Nodes of a SortedDLinkedList cannot be moved.')
+  }
+
+  /**
+   * Returns a {@link NodeView} of the first node whose value is not less than value, or null when there is none.
+   *
+   * ```
+   * const dll = SortedDLinkedList.fromArray([1,2,2,3])
+   * dll.lowerBound(2) // NodeView{value: 2}, the first 2
+   * ```
+   *
+   * @param value
+   */
+  lowerBound(value: T): NodeView<T> | null {
+    return NodeView.of(this.firstNode(data => this.comparator(data, value) >= 0))
+  }
+
+  /**
+   * Returns a {@link NodeView} of the first node whose value is greater than value, or null when there is none.
+   *
+   * ```
+   * const dll = SortedDLinkedList.fromArray([1,2,2,3])
+   * dll.upperBound(2) // NodeView{value: 3}
+   * ```
+   *
+   * @param value
+   */
+  upperBound(value: T): NodeView<T> | null {
+    return NodeView.of(this.firstNode(data => this.comparator(data, value) > 0))
+  }
+
+  /**
+   * Lazily iterates the values from, inclusive, up to to, exclusive, without copying the list.
+   *
+   * ```
+   * const dll = SortedDLinkedList.fromArray([1,2,3,4,5])
+   * [...dll.range(2, 4)] // [2,3]
+   * ```
+   *
+   * @param from
+   * @param to
+   */
+  * range(from: T, to: T): IterableIterator<T> {
+    for (let current of this.walk(this.firstNode(data => this.comparator(data, from) >= 0))) {
+      let data = current.getData()
+      if (this.comparator(data, to) >= 0) {
+        return
+      }
+      yield data
+    }
+  }
+
+  /**
+   * Returns the first node, from the head, whose value predicate returns true for.
+   * @param predicate
+   */
+  private firstNode(predicate: (data: T) => boolean): Node<T> | null {
+    let current = this.head_node
+    while (current !== null && !predicate(current.getData())) {
+      current = current.getNext()
+    }
+    return current
+  }
+}
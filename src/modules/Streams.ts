@@ -0,0 +1,200 @@
+/**
+ * @file Streams
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Readable, Writable, Transform} from 'stream'
+import {DLinkedList} from './DLinkedList'
+
+/**
+ * Options accepted by .toReadable
+ */
+export interface ReadableOptions {
+  /**
+   * Emit values from tail to head. Defaults to false.
+   */
+  reverse?: boolean
+
+  /**
+   * Number of values buffered before waiting for the consumer. Defaults to the stream default of 16.
+   */
+  highWaterMark?: number
+}
+
+/**
+ * Object mode Readable that walks the nodes of a list, emitting cloned values and pausing whenever
+ * the consumer applies backpressure. Created by .toReadable.
+ *
+ * Object mode streams use null to signal the end, so a list containing null errors the stream.
+ * Changing the list while the stream reads it errors the stream too, unless the list iterates in 'snapshot' mode.
+ */
+export class DLinkedListReadable<T> extends Readable {
+  private readonly values: Iterator<T>
+
+  /**
+   *
+   * @param list
+   * @param options
+   */
+  constructor(list: DLinkedList<T>, options: ReadableOptions = {}) {
+    super({objectMode: true, highWaterMark: options.highWaterMark})
+    this.values = options.reverse ? list.valuesRight() : list.values()
+  }
+
+  _read(): void {
+    while (true) {
+      let step: IteratorResult<T>
+      try {
+        step = this.values.next()
+      } catch (err) {
+        this.destroy(err)
+        return
+      }
+      if (step.done) {
+        break
+      }
+      let value = step.value
+      if (value === null) {
+        this.values.return()
+        this.destroy(new TypeError('Object mode streams cannot carry null values.'))
+        return
+      }
+      if (!this.push(value)) {
+        return
+      }
+    }
+    this.push(null)
+  }
+}
+
+/**
+ * Object mode Writable that appends every chunk written to it to a list. Created by .toWritable.
+ *
+ * ```
+ * const sink = dll.toWritable()
+ * source.pipe(sink)
+ * const list = await sink.done()
+ * ```
+ */
+export class DLinkedListWritable<T> extends Writable {
+  readonly list: DLinkedList<T>
+  private readonly finished: Promise<DLinkedList<T>>
+
+  /**
+   *
+   * @param list
+   */
+  constructor(list: DLinkedList<T>) {
+    super({objectMode: true})
+    this.list = list
+    this.finished = new Promise((resolve, reject) => {
+      this.once('finish', () => resolve(this.list))
+      this.once('error', reject)
+    })
+  }
+
+  _write(chunk: T, encoding: string, callback: (err?: Error) => void): void {
+    try {
+      this.list.append(chunk)
+      callback()
+    } catch (err) {
+      callback(err)
+    }
+  }
+
+  /**
+   * Resolves with the populated list once the stream finishes, or rejects if it errors.
+   */
+  done(): Promise<DLinkedList<T>> {
+    return this.finished
+  }
+}
+
+/**
+ * Reads every chunk of stream into list, resolving with list when the stream ends.
+ * Rejects if the stream errors, or if list refuses a chunk, for example with a {@link CapacityError}.
+ * In that case reading stops and the stream is destroyed.
+ * @param stream
+ * @param list
+ */
+export const readInto = <T>(stream: NodeJS.ReadableStream, list: DLinkedList<T>): Promise<DLinkedList<T>> => {
+  return new Promise((resolve, reject) => {
+    let onData = (chunk) => {
+      try {
+        list.append(chunk)
+      } catch (err) {
+        stop()
+        let destroy = (stream as Readable).destroy
+        if (typeof destroy === 'function') {
+          destroy.call(stream)
+        }
+        reject(err)
+      }
+    }
+    let onEnd = () => {
+      stop()
+      resolve(list)
+    }
+    let onError = (err) => {
+      stop()
+      reject(err)
+    }
+    let stop = () => {
+      stream.removeListener('data', onData)
+      stream.removeListener('end', onEnd)
+      stream.removeListener('error', onError)
+    }
+    stream.on('data', onData)
+    stream.once('end', onEnd)
+    stream.once('error', onError)
+  })
+}
+
+/**
+ * Returns an object mode Transform that replaces each chunk with the value iteratee returns or resolves.
+ * Iteratee receives each chunk and its index in the stream.
+ * Chunks mapped to null or undefined are dropped.
+ *
+ * ```
+ * source.pipe(mapTransform(v => v * 2)).pipe(dll.toWritable())
+ * ```
+ *
+ * @param iteratee
+ */
+export const mapTransform = <T, V>(iteratee: (chunk: T, index: number) => Promise<V> | V): Transform => {
+  let index = 0
+  return new Transform({
+    objectMode: true,
+    transform(chunk: T, encoding, callback) {
+      let position = index
+      index += 1
+      new Promise<V>(resolve => resolve(iteratee(chunk, position)))
+        .then(value => callback(null, value), callback)
+    }
+  })
+}
+
+/**
+ * Returns an object mode Transform that only passes on chunks predicate returns or resolves truthy for.
+ * Predicate receives each chunk and its index in the stream.
+ *
+ * ```
+ * dll.toReadable().pipe(filterTransform(v => v > 2)).pipe(out)
+ * ```
+ *
+ * @param predicate
+ */
+export const filterTransform = <T>(predicate: (chunk: T, index: number) => Promise<boolean> | boolean): Transform => {
+  let index = 0
+  return new Transform({
+    objectMode: true,
+    transform(chunk: T, encoding, callback) {
+      let position = index
+      index += 1
+      new Promise<boolean>(resolve => resolve(predicate(chunk, position)))
+        .then(keep => keep ? callback(null, chunk) : callback(), callback)
+    }
+  })
+}
@@ -0,0 +1,655 @@
+/**
+ * @file UnrolledLayout
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Node, NodeOwner, StorageMode, storeValue, storageReader} from './Node'
+import {Cloner, cloneNone} from './Cloner'
+import {Layout, Place, InvariantError} from './Layout'
+
+/**
+ * Up to chunkSize consecutive values of an {@link UnrolledLayout}, along with the nodes created for any of them.
+ */
+class Chunk<T> {
+  values: T[] = []
+
+  /**
+   * Parallel to values once a node has been created for one of them, with holes for values that have none.
+   */
+  nodes: Slot<T>[] = null
+  next: Chunk<T> = null
+  prev: Chunk<T> = null
+
+  constructor(public layout: UnrolledLayout<T>) {
+  }
+}
+
+/**
+ * Node of an {@link UnrolledLayout}, created the first time a value is asked for as a node. It holds the stored
+ * value and its place in a chunk, and finds its neighbours through the chunks rather than through links.
+ */
+class Slot<T> extends Node<T> {
+
+  /**
+   *
+   * @param stored - The value as the layout stores it.
+   * @param read - Turns the stored value into what getData hands out.
+   * @param chunk - Null while the node is not linked in.
+   * @param offset
+   */
+  constructor(stored: T, private readonly read: Cloner, public chunk: Chunk<T>, public offset: number) {
+    super(stored, null, null, cloneNone)
+  }
+
+  getData(): T {
+    return this.read(this.data)
+  }
+
+  getNext(): Node<T> {
+    return this.chunk !== null && this.isAttached() ? this.chunk.layout.neighbour(this, 1) : null
+  }
+
+  getPrev(): Node<T> {
+    return this.chunk !== null && this.isAttached() ? this.chunk.layout.neighbour(this, -1) : null
+  }
+
+  setNext(node: Node<T> | null): void {
+    throw new TypeError('Nodes of an unrolled list cannot be relinked.')
+  }
+
+  setPrev(node: Node<T> | null): void {
+    throw new TypeError('Nodes of an unrolled list cannot be relinked.')
+  }
+}
+
+/**
+ * A value's chunk and its offset within it.
+ */
+interface Position<T> {
+  chunk: Chunk<T>
+  offset: number
+}
+
+/**
+ * The 'unrolled' {@link LayoutKind}: values packed into arrays of up to chunkSize values, with the arrays linked
+ * together. A full chunk is split in two when a value is inserted into its middle, and a chunk that falls below
+ * half full is merged with a neighbour that has room. Its cells are the stored values.
+ *
+ * Nodes are created the first time a value is asked for as one and kept from then on, so handles stay the same
+ * object. Lists that report changes, record history, or override the node hooks ask for a node per value.
+ */
+export class UnrolledLayout<T> implements Layout<T, T> {
+  head: Chunk<T> = null
+  tail: Chunk<T> = null
+  size: number = 0
+  private readonly reader: Cloner
+
+  /**
+   *
+   * @param owner
+   * @param cloner
+   * @param storage
+   * @param chunkSize - Largest number of values a chunk holds.
+   */
+  constructor(public owner: NodeOwner,
+              private readonly cloner: Cloner,
+              private readonly storage: StorageMode,
+              readonly chunkSize: number) {
+    this.reader = storageReader(cloner, storage)
+  }
+
+  first(): Node<T> | null {
+    return this.head === null ? null : this.nodeIn(this.head, 0)
+  }
+
+  last(): Node<T> | null {
+    return this.tail === null ? null : this.nodeIn(this.tail, this.tail.values.length - 1)
+  }
+
+  nodeAt(index: number): Node<T> {
+    let {chunk, offset} = this.locate(index)
+    return this.nodeIn(chunk, offset)
+  }
+
+  indexOf(node: Slot<T>): number {
+    let index = node.offset
+    for (let chunk = node.chunk.prev; chunk !== null; chunk = chunk.prev) {
+      index += chunk.values.length
+    }
+    return index
+  }
+
+  * cells(from: number, backwards: boolean): IterableIterator<T> {
+    if (from < 0 || from >= this.size) {
+      return
+    }
+    let {chunk, offset} = this.locate(from)
+    while (chunk !== null) {
+      if (backwards) {
+        for (let i = offset; i >= 0; i--) {
+          yield chunk.values[i]
+        }
+        chunk = chunk.prev
+        offset = chunk === null ? 0 : chunk.values.length - 1
+      } else {
+        for (let i = offset; i < chunk.values.length; i++) {
+          yield chunk.values[i]
+        }
+        chunk = chunk.next
+        offset = 0
+      }
+    }
+  }
+
+  read(cell: T): T {
+    return this.reader(cell)
+  }
+
+  nodeOf(cell: T, index: number): Node<T> {
+    return this.nodeAt(index)
+  }
+
+  create(data: T): Node<T> {
+    return new Slot<T>(storeValue(data, this.cloner, this.storage), this.reader, null, -1)
+  }
+
+  insert(data: T, place: Place<T>): void {
+    this.put(storeValue(data, this.cloner, this.storage), null, place)
+  }
+
+  link(node: Slot<T>, place: Place<T>): void {
+    this.put(node.data, node, place)
+  }
+
+  unlink(node: Slot<T>): void {
+    this.take(node.chunk, node.offset)
+  }
+
+  remove(index: number): void {
+    let {chunk, offset} = this.locate(index)
+    let node = this.take(chunk, offset)
+    if (node !== undefined) {
+      node.setOwner(null)
+    }
+  }
+
+  update(index: number, data: T): void {
+    let {chunk, offset} = this.locate(index)
+    chunk.values[offset] = storeValue(data, this.cloner, this.storage)
+    let node = chunk.nodes === null ? undefined : chunk.nodes[offset]
+    if (node !== undefined) {
+      chunk.nodes[offset] = undefined
+      node.chunk = null
+      node.setOwner(null)
+    }
+  }
+
+  replace(node: Slot<T>, replacement: Slot<T>): void {
+    let chunk = node.chunk
+    chunk.values[node.offset] = replacement.data
+    chunk.nodes[node.offset] = replacement
+    replacement.chunk = chunk
+    replacement.offset = node.offset
+    node.chunk = null
+  }
+
+  cut(index: number, count: number, into: UnrolledLayout<T>): void {
+    let first = this.splitAt(index)
+    let after = index + count === this.size ? null : this.splitAt(index + count)
+    let last = after === null ? this.tail : after.prev
+    let before = first.prev
+    if (before === null) {
+      this.head = after
+    } else {
+      before.next = after
+    }
+    if (after === null) {
+      this.tail = before
+    } else {
+      after.prev = before
+    }
+    this.size -= count
+
+    first.prev = null
+    last.next = null
+    for (let chunk = first; chunk !== null; chunk = chunk.next) {
+      chunk.layout = into
+      if (chunk.nodes !== null) {
+        chunk.nodes.forEach((node) => {
+          if (node !== undefined) {
+            node.setOwner(into.owner)
+          }
+        })
+      }
+    }
+    into.head = first
+    into.tail = last
+    into.size = count
+    if (before !== null) {
+      this.compact(before)
+    }
+  }
+
+  join(other: UnrolledLayout<T>): void {
+    if (other.head === null) {
+      return
+    }
+    for (let chunk = other.head; chunk !== null; chunk = chunk.next) {
+      chunk.layout = this
+    }
+    let tail = this.tail
+    if (tail === null) {
+      this.head = other.head
+    } else {
+      tail.next = other.head
+      other.head.prev = tail
+    }
+    this.tail = other.tail
+    this.size += other.size
+    other.clear()
+    if (tail !== null) {
+      this.compact(tail)
+    }
+  }
+
+  relink(nodes: Slot<T>[]): void {
+    this.clear()
+    for (let start = 0; start < nodes.length; start += this.chunkSize) {
+      let chunk = this.append()
+      chunk.nodes = nodes.slice(start, start + this.chunkSize)
+      chunk.values = chunk.nodes.map(node => node.data)
+      this.renumber(chunk, 0)
+    }
+    this.size = nodes.length
+  }
+
+  /**
+   * Reverses the order of the chunks and the values within each.
+   */
+  reverse(): void {
+    for (let chunk = this.head; chunk !== null; chunk = chunk.prev) {
+      let next = chunk.next
+      chunk.next = chunk.prev
+      chunk.prev = next
+      chunk.values.reverse()
+      if (chunk.nodes !== null) {
+        chunk.nodes.reverse()
+        this.renumber(chunk, 0)
+      }
+    }
+    let head = this.head
+    this.head = this.tail
+    this.tail = head
+  }
+
+  /**
+   * Sorts the values, and their nodes, into the chunks they already fill. Ties keep their order.
+   * @param comparator
+   */
+  sort(comparator: (a: T, b: T) => number): void {
+    let entries: {stored: T, value: T, node: Slot<T>, index: number}[] = []
+    for (let chunk = this.head; chunk !== null; chunk = chunk.next) {
+      chunk.values.forEach((stored, offset) => {
+        let node = chunk.nodes === null ? undefined : chunk.nodes[offset]
+        entries.push({stored, value: this.reader(stored), node, index: entries.length})
+      })
+    }
+    entries.sort((a, b) => comparator(a.value, b.value) || a.index - b.index)
+
+    let index = 0
+    for (let chunk = this.head; chunk !== null; chunk = chunk.next) {
+      for (let offset = 0; offset < chunk.values.length; offset++) {
+        let entry = entries[index]
+        chunk.values[offset] = entry.stored
+        if (entry.node !== undefined && chunk.nodes === null) {
+          chunk.nodes = new Array(chunk.values.length)
+        }
+        if (chunk.nodes !== null) {
+          chunk.nodes[offset] = entry.node
+        }
+        index += 1
+      }
+      if (chunk.nodes !== null) {
+        this.renumber(chunk, 0)
+      }
+    }
+  }
+
+  clear(): void {
+    this.head = null
+    this.tail = null
+    this.size = 0
+  }
+
+  /**
+   * Verifies that the chunks link both ways without cycles from the head to the tail, that none is empty or
+   * over chunkSize, that every node knows its chunk and offset and belongs to list, and that the chunks
+   * hold size values.
+   * @param list
+   */
+  validate(list: object): void {
+    if (this.head === null || this.tail === null) {
+      if (this.head !== this.tail) {
+        throw new InvariantError(`The ${this.head === null ? 'head' : 'tail'} is missing but the ${this.head === null ? 'tail' : 'head'} is set.`)
+      }
+      if (this.size !== 0) {
+        throw new InvariantError(`The list has no values but its length is ${this.size}.`)
+      }
+      return
+    }
+
+    let seen = new Map<Chunk<T>, number>()
+    let prev: Chunk<T> = null
+    let count = 0
+    let index = 0
+    for (let chunk = this.head; chunk !== null; chunk = chunk.next) {
+      if (seen.has(chunk)) {
+        throw new InvariantError(`The chunk at index ${index - 1} links back to the chunk at index ${seen.get(chunk)}, forming a cycle.`)
+      }
+      if (chunk.prev !== prev) {
+        throw new InvariantError(`The chunk at index ${index} has a prev link that does not point to the chunk at index ${index - 1}.`)
+      }
+      if (chunk.layout !== this) {
+        throw new InvariantError(`The chunk at index ${index} belongs to another list.`)
+      }
+      if (chunk.values.length === 0 || chunk.values.length > this.chunkSize) {
+        throw new InvariantError(`The chunk at index ${index} holds ${chunk.values.length} values, outside of 1 to ${this.chunkSize}.`)
+      }
+      if (chunk.nodes !== null) {
+        if (chunk.nodes.length !== chunk.values.length) {
+          throw new InvariantError(`The chunk at index ${index} has ${chunk.nodes.length} node slots for ${chunk.values.length} values.`)
+        }
+        chunk.nodes.forEach((node, offset) => {
+          if (node === undefined) {
+            return
+          }
+          if (node.chunk !== chunk || node.offset !== offset || node.data !== chunk.values[offset]) {
+            throw new InvariantError(`The node at index ${count + offset} does not match its place in the chunk.`)
+          }
+          let owner = node.getOwner()
+          if (owner === null || owner.list !== list || !owner.attached) {
+            throw new InvariantError(`The node at index ${count + offset} does not belong to this list.`)
+          }
+        })
+      }
+      seen.set(chunk, index)
+      count += chunk.values.length
+      prev = chunk
+      index += 1
+    }
+    if (prev !== this.tail) {
+      throw new InvariantError(`The last chunk reachable from the head, at index ${index - 1}, is not the tail.`)
+    }
+    if (count !== this.size) {
+      throw new InvariantError(`${count} values are stored in the chunks but the length is ${this.size}.`)
+    }
+  }
+
+  /**
+   * Returns the node step places from node, or null past either end. Called by {@link Slot}.
+   * @param node
+   * @param step - 1 for the next node, -1 for the previous one.
+   */
+  neighbour(node: Slot<T>, step: number): Node<T> | null {
+    let offset = node.offset + step
+    if (offset >= 0 && offset < node.chunk.values.length) {
+      return this.nodeIn(node.chunk, offset)
+    }
+    let chunk = step > 0 ? node.chunk.next : node.chunk.prev
+    if (chunk === null) {
+      return null
+    }
+    return this.nodeIn(chunk, step > 0 ? 0 : chunk.values.length - 1)
+  }
+
+  /**
+   * Returns the node for the value at offset in chunk, creating it on first use.
+   * @param chunk
+   * @param offset
+   */
+  private nodeIn(chunk: Chunk<T>, offset: number): Node<T> {
+    if (chunk.nodes === null) {
+      chunk.nodes = new Array(chunk.values.length)
+    }
+    let node = chunk.nodes[offset]
+    if (node === undefined) {
+      node = new Slot<T>(chunk.values[offset], this.reader, chunk, offset)
+      node.setOwner(this.owner)
+      chunk.nodes[offset] = node
+    }
+    return node
+  }
+
+  /**
+   * Finds the value at index, walking the chunks from whichever end of the list is closer.
+   * @param index
+   */
+  private locate(index: number): Position<T> {
+    if (index < this.size / 2) {
+      let chunk = this.head
+      let offset = index
+      while (offset >= chunk.values.length) {
+        offset -= chunk.values.length
+        chunk = chunk.next
+      }
+      return {chunk, offset}
+    }
+
+    let chunk = this.tail
+    let start = this.size - chunk.values.length
+    while (index < start) {
+      chunk = chunk.prev
+      start -= chunk.values.length
+    }
+    return {chunk, offset: index - start}
+  }
+
+  /**
+   * Stores a value at place, along with its node when it has one.
+   * A full chunk spills over into a neighbour with room, or a new chunk, or is split in two.
+   * @param stored
+   * @param node
+   * @param place
+   */
+  private put(stored: T, node: Slot<T> | null, place: Place<T>): void {
+    let chunk: Chunk<T>
+    let offset: number
+    if (typeof place === 'number') {
+      if (this.head === null) {
+        chunk = this.append()
+        offset = 0
+      } else if (place === this.size) {
+        chunk = this.tail
+        offset = chunk.values.length
+      } else {
+        ({chunk, offset} = this.locate(place))
+      }
+    } else if ('before' in place) {
+      chunk = (place.before as Slot<T>).chunk
+      offset = (place.before as Slot<T>).offset
+    } else {
+      chunk = (place.after as Slot<T>).chunk
+      offset = (place.after as Slot<T>).offset + 1
+    }
+
+    if (chunk.values.length >= this.chunkSize) {
+      if (offset === chunk.values.length) {
+        if (chunk.next === null || chunk.next.values.length >= this.chunkSize) {
+          this.attach(new Chunk<T>(this), chunk)
+        }
+        chunk = chunk.next
+        offset = 0
+      } else if (offset === 0) {
+        if (chunk.prev === null || chunk.prev.values.length >= this.chunkSize) {
+          this.attach(new Chunk<T>(this), chunk.prev)
+        }
+        chunk = chunk.prev
+        offset = chunk.values.length
+      } else {
+        let half = Math.ceil(chunk.values.length / 2)
+        let rest = this.split(chunk, half)
+        if (offset > half) {
+          chunk = rest
+          offset -= half
+        }
+      }
+    }
+
+    chunk.values.splice(offset, 0, stored)
+    if (node !== null && chunk.nodes === null) {
+      chunk.nodes = new Array(chunk.values.length - 1)
+    }
+    if (chunk.nodes !== null) {
+      chunk.nodes.splice(offset, 0, node === null ? undefined : node)
+      this.renumber(chunk, offset)
+    }
+    this.size += 1
+  }
+
+  /**
+   * Removes the value at offset in chunk and returns its node, if it had one, unlinked.
+   * @param chunk
+   * @param offset
+   */
+  private take(chunk: Chunk<T>, offset: number): Slot<T> | undefined {
+    chunk.values.splice(offset, 1)
+    let node: Slot<T> = undefined
+    if (chunk.nodes !== null) {
+      node = chunk.nodes.splice(offset, 1)[0]
+      this.renumber(chunk, offset)
+    }
+    this.size -= 1
+    if (chunk.values.length === 0) {
+      this.detach(chunk)
+    } else {
+      this.compact(chunk)
+    }
+    if (node !== undefined) {
+      node.chunk = null
+      node.offset = -1
+    }
+    return node
+  }
+
+  /**
+   * Merges chunk with a neighbour once it is less than half full and they fit in one chunk.
+   * @param chunk
+   */
+  private compact(chunk: Chunk<T>): void {
+    if (chunk.values.length * 2 >= this.chunkSize) {
+      return
+    }
+    if (chunk.next !== null && chunk.values.length + chunk.next.values.length <= this.chunkSize) {
+      this.merge(chunk, chunk.next)
+    } else if (chunk.prev !== null && chunk.prev.values.length + chunk.values.length <= this.chunkSize) {
+      this.merge(chunk.prev, chunk)
+    }
+  }
+
+  /**
+   * Moves the values and nodes of next onto the end of chunk, and drops next.
+   * @param chunk
+   * @param next
+   */
+  private merge(chunk: Chunk<T>, next: Chunk<T>): void {
+    let offset = chunk.values.length
+    if (chunk.nodes !== null || next.nodes !== null) {
+      let nodes = next.nodes === null ? new Array(next.values.length) : next.nodes
+      chunk.nodes = (chunk.nodes === null ? new Array(offset) : chunk.nodes).concat(nodes)
+      this.renumber(chunk, offset)
+    }
+    chunk.values = chunk.values.concat(next.values)
+    this.detach(next)
+  }
+
+  /**
+   * Moves the values of chunk from offset on into a new chunk that follows it, and returns the new chunk.
+   * @param chunk
+   * @param offset
+   */
+  private split(chunk: Chunk<T>, offset: number): Chunk<T> {
+    let rest = new Chunk<T>(this)
+    rest.values = chunk.values.splice(offset)
+    if (chunk.nodes !== null) {
+      rest.nodes = chunk.nodes.splice(offset)
+      this.renumber(rest, 0)
+    }
+    this.attach(rest, chunk)
+    return rest
+  }
+
+  /**
+   * Returns the chunk that starts with the value at index, splitting the chunk holding it when needed.
+   * @param index
+   */
+  private splitAt(index: number): Chunk<T> {
+    let {chunk, offset} = this.locate(index)
+    return offset === 0 ? chunk : this.split(chunk, offset)
+  }
+
+  /**
+   * Links a new, empty chunk onto the end of the list and returns it.
+   */
+  private append(): Chunk<T> {
+    let chunk = new Chunk<T>(this)
+    this.attach(chunk, this.tail)
+    return chunk
+  }
+
+  /**
+   * Links chunk in after prev, or at the head when prev is null.
+   * @param chunk
+   * @param prev
+   */
+  private attach(chunk: Chunk<T>, prev: Chunk<T> | null): void {
+    let next = prev === null ? this.head : prev.next
+    chunk.prev = prev
+    chunk.next = next
+    if (prev === null) {
+      this.head = chunk
+    } else {
+      prev.next = chunk
+    }
+    if (next === null) {
+      this.tail = chunk
+    } else {
+      next.prev = chunk
+    }
+  }
+
+  /**
+   * Unlinks chunk from its neighbours.
+   * @param chunk
+   */
+  private detach(chunk: Chunk<T>): void {
+    if (chunk.prev === null) {
+      this.head = chunk.next
+    } else {
+      chunk.prev.next = chunk.next
+    }
+    if (chunk.next === null) {
+      this.tail = chunk.prev
+    } else {
+      chunk.next.prev = chunk.prev
+    }
+    chunk.prev = null
+    chunk.next = null
+  }
+
+  /**
+   * Points the nodes of chunk from offset on at their current place.
+   * @param chunk
+   * @param offset
+   */
+  private renumber(chunk: Chunk<T>, offset: number): void {
+    for (let i = offset; i < chunk.nodes.length; i++) {
+      let node = chunk.nodes[i]
+      if (node !== undefined) {
+        node.chunk = chunk
+        node.offset = i
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @file Cursor
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, DetachedNodeError} from '../src/index'
+
+const consistent = (dll: DLinkedList<any>) => {
+  expect([...dll.valuesRight()].reverse()).toEqual(dll.toArray())
+  expect(dll.toArray().length).toEqual(dll.length)
+}
+
+describe('Cursor', () => {
+
+  test('.cursor - Positions at head, tail or a predicate match', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(dll.cursor().value()).toEqual(1)
+    expect(dll.cursor('head').value()).toEqual(1)
+    expect(dll.cursor('tail').value()).toEqual(3)
+    expect(dll.cursor(v => v === 2).value()).toEqual(2)
+    expect(() => dll.cursor(v => v === 4)).toThrow()
+  })
+
+  test('.next, .prev, .atStart, .atEnd - Walk back and forth', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let cursor = dll.cursor()
+    expect(cursor.atStart).toBe(true)
+    expect(cursor.prev().value()).toEqual(1)
+    expect(cursor.next().next().value()).toEqual(3)
+    expect(cursor.atEnd).toBe(true)
+    expect(cursor.next().value()).toEqual(3)
+    expect(cursor.prev().value()).toEqual(2)
+    expect(cursor.atStart || cursor.atEnd).toBe(false)
+    expect(cursor.node()).toBe(dll.nodeAt(1))
+  })
+
+  test('.insertBefore, .insertAfter - Edit around the cursor', () => {
+    let dll = DLinkedList.fromArray([2, 4])
+    let cursor = dll.cursor()
+    cursor.insertBefore(1).insertAfter(3)
+    expect(cursor.value()).toEqual(2)
+    cursor.next().next().insertAfter(5)
+    expect(cursor.value()).toEqual(4)
+    expect(dll.toArray()).toEqual([1, 2, 3, 4, 5])
+    expect(dll.head()).toEqual(1)
+    expect(dll.tail()).toEqual(5)
+    consistent(dll)
+  })
+
+  test('.replace - Replaces the value under the cursor', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let cursor = dll.cursor()
+    cursor.replace(10).next().replace(20).next().replace(30)
+    expect(cursor.value()).toEqual(30)
+    expect(cursor.prev().prev().atStart).toBe(true)
+    expect(dll.toArray()).toEqual([10, 20, 30])
+    consistent(dll)
+  })
+
+  test('.remove - Moves to the next neighbour, or the previous one at the end', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    let cursor = dll.cursor(v => v === 2)
+    expect(cursor.remove()).toEqual(2)
+    expect(cursor.value()).toEqual(3)
+    cursor.next()
+    expect(cursor.remove()).toEqual(4)
+    expect(cursor.value()).toEqual(3)
+    expect(dll.tail()).toEqual(3)
+    consistent(dll)
+
+    expect(cursor.remove()).toEqual(3)
+    expect(cursor.remove()).toEqual(1)
+    expect(cursor.value()).toBeNull()
+    expect(cursor.remove()).toBeNull()
+    expect(dll.length).toEqual(0)
+    expect(dll.headNode()).toBeNull()
+    expect(dll.tailNode()).toBeNull()
+  })
+
+  test('Empty lists - Inserting moves the cursor onto the new value', () => {
+    let before = new DLinkedList<number>().cursor()
+    expect(before.atStart && before.atEnd).toBe(true)
+    expect(before.value()).toBeNull()
+    expect(before.next().prev().node()).toBeNull()
+    expect(before.insertBefore(1).value()).toEqual(1)
+
+    let after = new DLinkedList<number>().cursor('tail')
+    expect(after.insertAfter(1).value()).toEqual(1)
+
+    let dll = new DLinkedList<number>()
+    let replaced = dll.cursor().replace(1)
+    expect(replaced.value()).toEqual(1)
+    expect(dll.toArray()).toEqual([1])
+  })
+
+  test('.clone - Copies the position, then moves independently', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let a = dll.cursor()
+    let b = a.clone()
+    b.next()
+    expect(a.value()).toEqual(1)
+    expect(b.value()).toEqual(2)
+    b.remove()
+    expect(a.next().value()).toEqual(3)
+  })
+
+  test('Edits made elsewhere invalidate the cursor position', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let cursor = dll.cursor(v => v === 2)
+    dll.remove(v => v === 2)
+    expect(() => cursor.insertAfter(4)).toThrow(DetachedNodeError)
+  })
+});
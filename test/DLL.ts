@@ -5,7 +5,49 @@
  * @license MIT {@link http://opensource.org/licenses/MIT}
  */
 
-import {DLinkedList} from '../src/index'
+import {
+  DLinkedList,
+  AbortError,
+  Node,
+  NodeView,
+  ReadOnlyViewError,
+  ForeignNodeError,
+  DetachedNodeError,
+  isReadOnlyView,
+  toMutable,
+  unwrap,
+  dateCodec,
+  mapCodec,
+  setCodec,
+  Codec,
+  CapacityError,
+  InvariantError,
+  ConcurrentModificationError
+} from '../src/index'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Tests that break node links by hand only apply to the 'nodes' layout, test/Unrolled.ts reruns this file without them.
+const nodesOnly = DLinkedList.defaultLayout === 'nodes' ? test : test.skip
+
+/**
+ * Minimal AbortController stand in, the Node typings in use predate AbortController.
+ */
+const abortController = () => {
+  let listeners = []
+  let signal = {
+    aborted: false,
+    addEventListener: (type, listener) => listeners.push(listener),
+    removeEventListener: (type, listener) => {
+      listeners = listeners.filter(l => l !== listener)
+    }
+  }
+  let abort = () => {
+    signal.aborted = true
+    listeners.forEach(l => l())
+  }
+  return {signal, abort}
+}
 
 describe('Double Linked List', () => {
 
@@ -102,7 +144,7 @@ describe('Double Linked List', () => {
 
     let singleEntryDll = new DLinkedList()
     singleEntryDll.append(1)
-    let insertBeforehead = dll.findNode(v => v === 1)
+    let insertBeforehead = singleEntryDll.findNode(v => v === 1)
     singleEntryDll.insertBeforeNode(insertBeforehead, 0)
 
     expect(singleEntryDll.toArray()).toEqual([0,1])
@@ -315,7 +357,7 @@ describe('Double Linked List', () => {
   })
 
   test('.find - Returns the first entry predicate returns truthy for.', () => {
-    let dll = new DLinkedList()
+    let dll = new DLinkedList<{a: number, b: number}>()
     dll
       .append({a: 1, b: 6})
       .append({a: 2, b: 7})
@@ -388,4 +430,1067 @@ describe('Double Linked List', () => {
     expect(results).toEqual(0)
 
   })
-});
\ No newline at end of file
+
+  test('[Symbol.iterator] - Iterates cloned values from head to tail.', () => {
+    let o = {a: 1}
+    let dll = DLinkedList.fromArray([o, {a: 2}, {a: 3}])
+    let [first, ...rest] = dll
+    first.a = 100
+
+    expect(first).toEqual({a: 100})
+    expect(rest).toEqual([{a: 2}, {a: 3}])
+    expect(Array.from(dll)).toEqual([{a: 1}, {a: 2}, {a: 3}])
+    expect(o.a).toEqual(1)
+
+    let seen = []
+    for (let v of DLinkedList.fromArray([1,2,3])) {
+      seen.push(v)
+    }
+    expect(seen).toEqual([1,2,3])
+  })
+
+  test('.values, .valuesRight, .reverse, .entries, .nodes - Iterator helpers', () => {
+    let dll = DLinkedList.fromArray(['a', 'b', 'c'])
+    expect([...dll.values()]).toEqual(['a', 'b', 'c'])
+    expect([...dll.valuesRight()]).toEqual(['c', 'b', 'a'])
+    expect([...dll.reverse()]).toEqual(['c', 'b', 'a'])
+    expect(dll.toArray()).toEqual(['a', 'b', 'c'])
+    expect([...dll.entries()]).toEqual([[0, 'a'], [1, 'b'], [2, 'c']])
+    expect([...dll.nodes()].map(n => n.getData())).toEqual(['a', 'b', 'c'])
+    expect([...new DLinkedList().values()]).toEqual([])
+  })
+
+  test('[Symbol.asyncIterator] - Asynchronously iterates values from head to tail.', async () => {
+    let dll = DLinkedList.fromArray([1,2,3])
+    let seen = []
+    for await (let v of dll) {
+      seen.push(v)
+    }
+    expect(seen).toEqual([1,2,3])
+  })
+
+  test('.from - Creates a linked list from any iterable', () => {
+    expect(DLinkedList.from(new Set([1,2,3])).toArray()).toEqual([1,2,3])
+    expect(DLinkedList.from(new Map([['a', 1]])).toArray()).toEqual([['a', 1]])
+    expect(DLinkedList.from('abc').toArray()).toEqual(['a', 'b', 'c'])
+    expect(DLinkedList.from(DLinkedList.fromArray([1,2])).toArray()).toEqual([1,2])
+  })
+
+  test('.fromAsync - Creates a linked list from an async iterable', async () => {
+    async function* gen() {
+      yield 1
+      yield 2
+      yield 3
+    }
+    let dll = await DLinkedList.fromAsync(gen())
+    expect(dll.toArray()).toEqual([1,2,3])
+
+    let fromPromises = await DLinkedList.fromAsync([Promise.resolve(1), 2])
+    expect(fromPromises.toArray()).toEqual([1,2])
+  })
+
+  test('.at, .nodeAt - Access values by position', () => {
+    let dll = DLinkedList.fromArray([1,2,3,4,5])
+    expect(dll.at(0)).toEqual(1)
+    expect(dll.at(1)).toEqual(2)
+    expect(dll.at(3)).toEqual(4)
+    expect(dll.at(-1)).toEqual(5)
+    expect(dll.at(-5)).toEqual(1)
+    expect(dll.nodeAt(2).getData()).toEqual(3)
+    expect(dll.nodeAt(4)).toBe(dll.tailNode())
+
+    expect(() => dll.at(5)).toThrow(RangeError)
+    expect(() => dll.at(-6)).toThrow(RangeError)
+    expect(() => dll.at(1.5)).toThrow(RangeError)
+    expect(() => new DLinkedList().at(0)).toThrow('Index 0 is out of bounds for a list of length 0.')
+  })
+
+  test('.setAt - Replaces the value at a position', () => {
+    let dll = DLinkedList.fromArray([1,2,3])
+    dll.setAt(0, 10).setAt(1, 20).setAt(-1, 30)
+    expect(dll.toArray()).toEqual([10,20,30])
+    expect([...dll.valuesRight()]).toEqual([30,20,10])
+    expect(dll.length).toEqual(3)
+    expect(() => dll.setAt(3, 40)).toThrow(RangeError)
+  })
+
+  test('.insertAt - Inserts a value at a position', () => {
+    let dll = DLinkedList.fromArray([2,4])
+    dll.insertAt(0, 1).insertAt(2, 3).insertAt(4, 5).insertAt(-1, 4.5)
+    expect(dll.toArray()).toEqual([1,2,3,4,4.5,5])
+    expect(dll.length).toEqual(6)
+    expect(() => dll.insertAt(7, 0)).toThrow(RangeError)
+
+    let empty = new DLinkedList<number>()
+    empty.insertAt(0, 1)
+    expect(empty.toArray()).toEqual([1])
+  })
+
+  test('.removeAt - Removes the value at a position', () => {
+    let dll = DLinkedList.fromArray([1,2,3,4,5])
+    dll.removeAt(-1).removeAt(0).removeAt(1)
+    expect(dll.toArray()).toEqual([2,4])
+    expect(dll.tail()).toEqual(4)
+    expect(dll.length).toEqual(2)
+    expect(() => dll.removeAt(2)).toThrow(RangeError)
+  })
+
+  test('.slice - Copies a range of positions into a new list', () => {
+    let dll = DLinkedList.fromArray([1,2,3,4,5])
+    expect(dll.slice().toArray()).toEqual([1,2,3,4,5])
+    expect(dll.slice(1, 3).toArray()).toEqual([2,3])
+    expect(dll.slice(-2).toArray()).toEqual([4,5])
+    expect(dll.slice(1, -1).toArray()).toEqual([2,3,4])
+    expect(dll.slice(-10, 10).toArray()).toEqual([1,2,3,4,5])
+    expect(dll.slice(3, 1).toArray()).toEqual([])
+  })
+
+  test('.concat - Copies values of several lists into a new one', () => {
+    let a = DLinkedList.fromArray([{v: 1}], {cloner: 'deep'})
+    let b = DLinkedList.fromArray([{v: 2}])
+    let joined = a.concat(b, [{v: 3}], new Set([{v: 4}]))
+    expect(joined.toArray()).toEqual([{v: 1}, {v: 2}, {v: 3}, {v: 4}])
+    expect(joined.tail()).toEqual({v: 4})
+    expect(joined.length).toEqual(4)
+    expect(joined.cloner).toEqual('deep')
+    expect(a.toArray()).toEqual([{v: 1}])
+    expect(b.toArray()).toEqual([{v: 2}])
+    expect(a.concat().toArray()).toEqual([{v: 1}])
+  })
+
+  test('.absorb - Moves the nodes of another list', () => {
+    let a = DLinkedList.fromArray([1, 2])
+    let b = DLinkedList.fromArray([3, 4])
+    let moved = b.headNode()
+    expect(a.absorb(b)).toBe(a)
+    expect(a.toArray()).toEqual([1, 2, 3, 4])
+    expect([...a.valuesRight()]).toEqual([4, 3, 2, 1])
+    expect(a.tail()).toEqual(4)
+    expect(a.length).toEqual(4)
+    expect(b.toArray()).toEqual([])
+    expect(b.head()).toBeNull()
+    expect(b.length).toEqual(0)
+
+    expect(moved.isAttached).toBe(true)
+    a.insertAfterNode(moved, 3.5)
+    expect(a.toArray()).toEqual([1, 2, 3, 3.5, 4])
+    expect(() => b.removeNode(moved)).toThrow(ForeignNodeError)
+
+    b.append(5)
+    let c = new DLinkedList<number>()
+    c.absorb(a).absorb(b).absorb(new DLinkedList())
+    expect(c.toArray()).toEqual([1, 2, 3, 3.5, 4, 5])
+    c.removeNode(moved)
+    expect(c.toArray()).toEqual([1, 2, 3.5, 4, 5])
+
+    let kept = c.tailNode()
+    c.clear()
+    expect(kept.isAttached).toBe(false)
+    expect(() => c.absorb(c)).toThrow('A list cannot absorb itself.')
+    expect(() => c.absorb(DLinkedList.fromArray([1], {freeze: true}))).toThrow(TypeError)
+  })
+
+  test('.splitAt - Cuts a list in two at an index or node', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let moved = dll.nodeAt(3)
+    let [front, back] = dll.splitAt(2)
+    expect(front).toBe(dll)
+    expect(front.toArray()).toEqual([1, 2])
+    expect(front.tail()).toEqual(2)
+    expect(front.length).toEqual(2)
+    expect(back.toArray()).toEqual([3, 4, 5])
+    expect([...back.valuesRight()]).toEqual([5, 4, 3])
+    expect(back.length).toEqual(3)
+
+    back.removeNode(moved)
+    expect(back.toArray()).toEqual([3, 5])
+    expect(() => front.removeNode(back.headNode())).toThrow(ForeignNodeError)
+
+    let [rest, tail] = back.splitAt(back.tailNode())
+    expect(rest.toArray()).toEqual([3])
+    expect(tail.toArray()).toEqual([5])
+    let pair = DLinkedList.fromArray([1, 2, 3])
+    expect(pair.splitAt(pair.nodeAt(1))[1].toArray()).toEqual([2, 3])
+
+    let [all, none] = DLinkedList.fromArray([1, 2]).splitAt(2)
+    expect(all.toArray()).toEqual([1, 2])
+    expect(none.toArray()).toEqual([])
+    let [empty, whole] = DLinkedList.fromArray([1, 2]).splitAt(0)
+    expect(empty.toArray()).toEqual([])
+    expect(empty.tail()).toBeNull()
+    expect(whole.toArray()).toEqual([1, 2])
+    expect(() => dll.splitAt(5)).toThrow(RangeError)
+  })
+
+  test('.splice - Removes and inserts values like Array.prototype.splice', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let removed = dll.splice(1, 2, 20, 30, 40)
+    expect(removed.toArray()).toEqual([2, 3])
+    expect(dll.toArray()).toEqual([1, 20, 30, 40, 4, 5])
+    expect(dll.length).toEqual(6)
+
+    expect(dll.splice(-2).toArray()).toEqual([4, 5])
+    expect(dll.toArray()).toEqual([1, 20, 30, 40])
+    expect(dll.tail()).toEqual(40)
+
+    expect(dll.splice(0, 1).toArray()).toEqual([1])
+    expect(dll.head()).toEqual(20)
+    expect(dll.splice(10, 0, 50, 60).toArray()).toEqual([])
+    expect(dll.splice(0, -1, 10).toArray()).toEqual([])
+    expect(dll.toArray()).toEqual([10, 20, 30, 40, 50, 60])
+    expect([...dll.valuesRight()]).toEqual([60, 50, 40, 30, 20, 10])
+    expect(dll.splice(0).length).toEqual(6)
+    expect(dll.head()).toBeNull()
+    expect(dll.tail()).toBeNull()
+  })
+
+  test('.reverseInPlace - Reverses the list in place', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let head = dll.headNode()
+    expect(dll.reverseInPlace()).toBe(dll)
+    expect(dll.toArray()).toEqual([3, 2, 1])
+    expect([...dll.valuesRight()]).toEqual([1, 2, 3])
+    expect(head.isTail).toBe(true)
+    dll.append(0)
+    expect(dll.toArray()).toEqual([3, 2, 1, 0])
+    expect(new DLinkedList().reverseInPlace().toArray()).toEqual([])
+  })
+
+  test('.sort - Stable in place sort that relinks nodes', () => {
+    let dll = DLinkedList.fromArray([{k: 3, id: 'a'}, {k: 1, id: 'b'}, {k: 3, id: 'c'}, {k: 2, id: 'd'}, {k: 1, id: 'e'}])
+    let node = dll.headNode()
+    let calls = 0
+    dll.sort((a, b) => {
+      calls += 1
+      return a.k - b.k
+    })
+    expect(dll.toArray().map(v => v.id)).toEqual(['b', 'e', 'd', 'a', 'c'])
+    expect([...dll.valuesRight()].map(v => v.id)).toEqual(['c', 'a', 'd', 'e', 'b'])
+    expect(dll.head().id).toEqual('b')
+    expect(dll.tail().id).toEqual('c')
+    expect(dll.length).toEqual(5)
+    expect(calls).toBeGreaterThan(0)
+    expect(node.isAttached).toBe(true)
+    expect(node.next().value.id).toEqual('c')
+
+    expect(DLinkedList.fromArray([3, 1, 2]).sort().toArray()).toEqual([1, 2, 3])
+    expect(DLinkedList.fromArray(['b', 'c', 'a']).sort((a, b) => b.localeCompare(a)).toArray()).toEqual(['c', 'b', 'a'])
+    expect(new DLinkedList().sort().toArray()).toEqual([])
+  })
+
+  test('.sorted - Returns a sorted copy', () => {
+    let dll = DLinkedList.fromArray([3, 1, 2], {freeze: true})
+    let sorted = dll.sorted()
+    expect(sorted.toArray()).toEqual([1, 2, 3])
+    expect(sorted.freeze).toBe(true)
+    expect(dll.toArray()).toEqual([3, 1, 2])
+    expect(dll.sorted((a, b) => b - a).toArray()).toEqual([3, 2, 1])
+  })
+
+  test('.asyncMap - Limits pending iteratees and preserves order', async () => {
+    let dll = DLinkedList.fromArray([5, 1, 4, 2, 3])
+    let pending = 0
+    let maxPending = 0
+    let results = await dll.asyncMap(async (n) => {
+      pending += 1
+      maxPending = Math.max(maxPending, pending)
+      await delay(n)
+      pending -= 1
+      return n * n
+    }, {concurrency: 2})
+
+    expect(results.toArray()).toEqual([25, 1, 16, 4, 9])
+    expect(maxPending).toEqual(2)
+
+    let right = await dll.asyncMapRight(n => n * 2, {concurrency: 1})
+    expect(right.toArray()).toEqual([6, 4, 8, 2, 10])
+
+    await expect(dll.asyncMap(n => n, {concurrency: 0})).rejects.toThrow(RangeError)
+    await expect(dll.asyncMap(n => Promise.reject(new Error('nope')))).rejects.toThrow('nope')
+  })
+
+  test('.asyncMap - Aborting rejects and stops dispatching', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let controller = abortController()
+    let started = []
+    let pending = dll.asyncMap(async (n) => {
+      started.push(n)
+      await delay(10)
+      return n
+    }, {concurrency: 2, signal: controller.signal})
+
+    controller.abort()
+    await expect(pending).rejects.toBeInstanceOf(AbortError)
+    await delay(30)
+    expect(started).toEqual([1, 2])
+
+    await expect(dll.asyncMap(n => n, {signal: controller.signal})).rejects.toThrow('The operation was aborted.')
+  })
+
+  test('.asyncFilter, .asyncEach - Concurrency limited iteration', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let filtered = await dll.asyncFilter(async (n) => {
+      await delay(6 - n)
+      return n % 2 === 1
+    }, {concurrency: 3})
+    expect(filtered.toArray()).toEqual([1, 3, 5])
+
+    let seen = []
+    let self = await dll.asyncEach(n => {
+      seen.push(n)
+    }, {concurrency: 1})
+    expect(self).toBe(dll)
+    expect(seen).toEqual([1, 2, 3, 4, 5])
+  })
+
+  test('.asyncFind, .asyncSome, .asyncEvery - Stop dispatching once settled', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let checked = []
+    let found = await dll.asyncFind((n) => {
+      checked.push(n)
+      return Promise.resolve(n >= 2)
+    }, {concurrency: 1})
+    expect(found).toEqual(2)
+    expect(checked).toEqual([1, 2])
+    expect(await dll.asyncFind(n => n > 10)).toBeNull()
+    expect(await dll.asyncFind(async (n) => {
+      await delay(6 - n)
+      return n > 2
+    }, {concurrency: 5})).toEqual(3)
+
+    expect(await dll.asyncSome(n => Promise.resolve(n === 4), {concurrency: 2})).toBe(true)
+    expect(await dll.asyncSome(n => n === 6)).toBe(false)
+    expect(await dll.asyncEvery(n => Promise.resolve(n > 0), {concurrency: 2})).toBe(true)
+
+    checked = []
+    expect(await dll.asyncEvery((n) => {
+      checked.push(n)
+      return n < 2
+    }, {concurrency: 1})).toBe(false)
+    expect(checked).toEqual([1, 2])
+  })
+
+  test('.asyncReduce, .asyncReduceRight - Abort between steps', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let controller = abortController()
+    let reduced = dll.asyncReduce((acc, v) => {
+      controller.abort()
+      return Promise.resolve(acc + v)
+    }, 0, {signal: controller.signal})
+    await expect(reduced).rejects.toBeInstanceOf(AbortError)
+    await expect(dll.asyncReduceRight((acc, v) => Promise.resolve(acc + v), 0, {signal: controller.signal}))
+      .rejects.toBeInstanceOf(AbortError)
+  })
+
+  test('cloner - Defaults to plain cloning', () => {
+    let date = new Date(0)
+    let dll = DLinkedList.fromArray([date])
+    expect(dll.cloner).toEqual('plain')
+    expect(dll.head()).toBe(date)
+  })
+
+  test('cloner - Deep cloning copies Dates, Maps, Sets and typed arrays', () => {
+    let date = new Date(0)
+    let map = new Map([['a', {b: 1}]])
+    let set = new Set([1, 2])
+    let bytes = new Uint8Array([1, 2, 3])
+    let dll = DLinkedList.fromArray<any>([date, map, set, bytes, /x/g], {cloner: 'deep'})
+
+    date.setTime(1000)
+    map.get('a').b = 2
+    set.add(3)
+    bytes[0] = 100
+
+    let [d, m, st, b, r] = dll.toArray()
+    expect(d.getTime()).toEqual(0)
+    expect(m.get('a')).toEqual({b: 1})
+    expect(st.has(3)).toBe(false)
+    expect(b[0]).toEqual(1)
+    expect(r).toEqual(/x/g)
+
+    d.setTime(5000)
+    expect(dll.head().getTime()).toEqual(0)
+  })
+
+  test('cloner - Deep cloning keeps prototypes', () => {
+    class Point {
+      constructor(public x: number) {
+      }
+    }
+    let weak = new WeakMap()
+    let deep = DLinkedList.fromArray<any>([new Point(1), {weak}], {cloner: 'deep'})
+    expect(deep.head()).toBeInstanceOf(Point)
+    expect(deep.tail().weak).toBe(weak)
+  })
+
+  test('cloner - Structured cloning follows the structured clone algorithm', () => {
+    class Point {
+      constructor(public x: number) {
+      }
+    }
+    let cyclic: any = {n: 1}
+    cyclic.self = cyclic
+    let dll = DLinkedList.fromArray<any>([new Date(0), new Map([['a', {b: 1}]]), cyclic, new Point(2)], {cloner: 'structured'})
+    expect(dll.cloner).toEqual('structured')
+
+    // v8.deserialize builds its objects in node's own realm rather than the test's, so tags are checked instead of instanceof.
+    let [d, m, c, p] = dll.toArray()
+    expect(Object.prototype.toString.call(d)).toEqual('[object Date]')
+    expect(d.getTime()).toEqual(0)
+    m.get('a').b = 2
+    expect(dll.at(1).get('a')).toEqual({b: 1})
+    expect(c.self).toBe(c)
+    expect(c).not.toBe(cyclic)
+    expect(p).not.toBeInstanceOf(Point)
+    expect(p.x).toEqual(2)
+    expect(() => dll.append({fn: () => 1})).toThrow()
+    expect(DLinkedList.fromJSON(JSON.stringify(DLinkedList.fromArray([1], {cloner: 'structured'}))).cloner).toEqual('structured')
+  })
+
+  test('cloner - None and custom strategies', () => {
+    let o = {a: 1}
+    let none = DLinkedList.fromArray([o], {cloner: 'none'})
+    expect(none.head()).toBe(o)
+
+    let calls = 0
+    let custom = new DLinkedList<{a: number}>({cloner: (v) => {
+      calls += 1
+      return {...v}
+    }})
+    custom.append(o)
+    expect(custom.head()).not.toBe(o)
+    expect(calls).toEqual(2)
+
+    expect(() => new DLinkedList({cloner: 'bogus' as any})).toThrow(TypeError)
+  })
+
+  test('cloner - Derived lists inherit the strategy', async () => {
+    let dll = DLinkedList.fromArray([new Date(0), new Date(1)], {cloner: 'deep'})
+    expect(dll.map(d => d).cloner).toEqual('deep')
+    expect(dll.mapRight(d => d).cloner).toEqual('deep')
+    expect(dll.filter(() => true).cloner).toEqual('deep')
+    expect(dll.slice(1).cloner).toEqual('deep')
+    expect((await dll.asyncMap(d => d)).cloner).toEqual('deep')
+    expect((await dll.asyncMapRight(d => d)).cloner).toEqual('deep')
+    expect((await dll.asyncFilter(() => true)).cloner).toEqual('deep')
+    expect(DLinkedList.from([1], {cloner: 'none'}).cloner).toEqual('none')
+    expect((await DLinkedList.fromAsync([1], {cloner: 'none'})).cloner).toEqual('none')
+  })
+
+  test('Node - Accepts a cloner', () => {
+    let date = new Date(0)
+    let node = new Node<Date>(date, null, null, v => new Date(v.getTime()))
+    expect(node.getData()).not.toBe(date)
+    expect(node.getData().getTime()).toEqual(0)
+  })
+
+  test('freeze - Stores deeply frozen values and returns them without cloning', () => {
+    let o = {a: {b: [1, 2]}}
+    let dll = DLinkedList.fromArray([o], {freeze: true})
+    o.a.b.push(3)
+
+    let head = dll.head()
+    expect(head).toEqual({a: {b: [1, 2]}})
+    expect(head).toBe(dll.head())
+    expect(Object.isFrozen(head.a.b)).toBe(true)
+    expect(() => {
+      head.a.b.push(3)
+    }).toThrow(TypeError)
+    expect(() => {
+      (head.a as any).c = 1
+    }).toThrow(TypeError)
+    expect(Object.isFrozen(o)).toBe(false)
+
+    let bytes = new DLinkedList<Uint8Array>({freeze: true, cloner: 'deep'}).append(new Uint8Array([1]))
+    expect(bytes.head()[0]).toEqual(1)
+  })
+
+  test('freeze - Freezes a deep copy and leaves the inserted object alone', () => {
+    class User {
+      constructor(public name: string, public tags: string[]) {
+      }
+    }
+    let user = new User('a', ['x'])
+    let dll = DLinkedList.fromArray([user], {freeze: true})
+    expect(dll.head()).not.toBe(user)
+    expect(dll.head()).toBeInstanceOf(User)
+    expect(Object.isFrozen(dll.head().tags)).toBe(true)
+    expect(Object.isFrozen(user)).toBe(false)
+    expect(Object.isFrozen(user.tags)).toBe(false)
+
+    let o = {a: {b: 1}}
+    let none = DLinkedList.fromArray([o], {freeze: true, cloner: 'none'})
+    expect(none.head()).toEqual(o)
+    expect(Object.isFrozen(o)).toBe(false)
+    expect(Object.isFrozen(o.a)).toBe(false)
+  })
+
+  test('freeze - Derived lists inherit the mode', async () => {
+    let dll = DLinkedList.fromArray([{a: 1}, {a: 2}], {freeze: true})
+    let mapped = dll.map(v => ({a: v.a * 2}))
+    expect(mapped.freeze).toBe(true)
+    expect(Object.isFrozen(mapped.head())).toBe(true)
+    expect(dll.filter(() => true).freeze).toBe(true)
+    expect((await dll.asyncMap(v => v)).freeze).toBe(true)
+    expect(new DLinkedList().freeze).toBe(false)
+  })
+
+  test('proxy - Reads return read-only views of the stored value', () => {
+    let o = {a: {b: [1, 2]}, c: 'c'}
+    let dll = DLinkedList.fromArray([o], {proxy: true})
+    o.a.b.push(3)
+
+    let head = dll.head()
+    expect(isReadOnlyView(head)).toBe(true)
+    expect(head).toBe(dll.head())
+    expect(head.a.b[1]).toEqual(2)
+    expect(Object.keys(head)).toEqual(['a', 'c'])
+    expect(JSON.stringify(head)).toEqual('{"a":{"b":[1,2]},"c":"c"}')
+    expect(head.a.b.map(n => n * 2)).toEqual([2, 4])
+
+    expect(() => {
+      head.c = 'd'
+    }).toThrow(ReadOnlyViewError)
+    expect(() => {
+      delete head.c
+    }).toThrow('Cannot delete property "c" on a read-only list value. Use toMutable() to get a writable copy.')
+    expect(() => head.a.b.push(3)).toThrow(ReadOnlyViewError)
+    expect(() => Object.defineProperty(head, 'x', {value: 1})).toThrow(ReadOnlyViewError)
+    expect(() => Object.setPrototypeOf(head, null)).toThrow(ReadOnlyViewError)
+    expect(() => Object.preventExtensions(head)).toThrow(ReadOnlyViewError)
+    expect(dll.toArray()).toEqual([{a: {b: [1, 2]}, c: 'c'}])
+  })
+
+  test('proxy - Reads frozen nested values without breaking Proxy invariants', () => {
+    let o = Object.freeze({a: Object.freeze({b: 1}), c: {d: 2}})
+    let dll = DLinkedList.fromArray([o], {proxy: true, cloner: 'none'})
+    let view = dll.head()
+    expect(view.a.b).toEqual(1)
+    expect(view.a).toBe(o.a)
+    expect(Object.keys(view)).toEqual(['a', 'c'])
+    expect(JSON.stringify(view)).toEqual('{"a":{"b":1},"c":{"d":2}}')
+    expect(() => (view as any).e = 1).toThrow(ReadOnlyViewError)
+
+    let open = DLinkedList.fromArray([{a: Object.freeze({b: 1})}], {proxy: true, cloner: 'none'})
+    expect(isReadOnlyView(open.head().a)).toBe(true)
+  })
+
+  test('proxy - toMutable and unwrap return writable deep copies', () => {
+    let dll = DLinkedList.fromArray([{a: {b: 1}}], {proxy: true})
+    let copy = toMutable(dll.head())
+    copy.a.b = 2
+    expect(isReadOnlyView(copy)).toBe(false)
+    expect(dll.head().a.b).toEqual(1)
+    expect(unwrap(dll.head())).toEqual({a: {b: 1}})
+    expect(toMutable(1)).toEqual(1)
+  })
+
+  test('proxy - Views over Maps, Sets and Dates allow reads only', () => {
+    let dll = DLinkedList.fromArray<any>([
+      new Map([['a', {b: 1}]]),
+      new Set([1]),
+      new Date(0)
+    ], {proxy: true, cloner: 'deep'})
+    let [map, set, date] = dll.toArray()
+
+    expect(map.size).toEqual(1)
+    expect(map.get('a').b).toEqual(1)
+    expect(() => {
+      map.get('a').b = 2
+    }).toThrow(ReadOnlyViewError)
+    expect(Array.from(map.values())).toEqual([{b: 1}])
+    expect(() => map.set('b', 1)).toThrow('Cannot call Map.set() on a read-only list value.')
+    expect(set.has(1)).toBe(true)
+    expect(() => set.add(2)).toThrow(ReadOnlyViewError)
+    expect(date.getTime()).toEqual(0)
+    expect(() => date.setTime(1)).toThrow(ReadOnlyViewError)
+  })
+
+  test('proxy - Iteratees receive views and derived lists inherit the mode', () => {
+    let dll = DLinkedList.fromArray([{a: 1}, {a: 2}], {proxy: true})
+    dll.each(v => expect(isReadOnlyView(v)).toBe(true))
+    let filtered = dll.filter(v => v.a > 1)
+    expect(filtered.proxy).toBe(true)
+    expect(filtered.toArray()).toEqual([{a: 2}])
+    expect(dll.find(v => v.a === 1)).toEqual({a: 1})
+    expect(dll.reduce((acc, v) => acc + v.a, 0)).toEqual(3)
+
+    let plain = DLinkedList.fromArray([dll.head()])
+    expect(isReadOnlyView(plain.head())).toBe(false)
+
+    expect(() => new DLinkedList({proxy: true, freeze: true})).toThrow(TypeError)
+  })
+
+  test('NodeView - Public node accessors return read-only views', () => {
+    let dll = DLinkedList.fromArray([1,2,3])
+    let head = dll.headNode()
+    let tail = dll.tailNode()
+
+    expect(head).toBeInstanceOf(NodeView)
+    expect(head).toBe(dll.headNode())
+    expect(head.value).toEqual(1)
+    expect(head.isHead).toBe(true)
+    expect(head.isTail).toBe(false)
+    expect(head.prev()).toBeNull()
+    expect(head.next().value).toEqual(2)
+    expect(head.next()).toBe(dll.nodeAt(1))
+    expect(tail.isTail).toBe(true)
+    expect(tail.prev().prev()).toBe(head)
+    expect(dll.findNode(v => v === 2)).toBe(dll.nodeAt(1))
+    expect(dll.findNode(v => v === 4)).toBeNull()
+    expect((head as any).setNext).toBeUndefined()
+    expect((head as any).next_node).toBeUndefined()
+  })
+
+  test('.removeNode - Removing the tail node updates the tail', () => {
+    let dll = DLinkedList.fromArray([1,2,3])
+    dll.removeNode(dll.tailNode())
+    expect(dll.toArray()).toEqual([1,2])
+    expect(dll.tail()).toEqual(2)
+    expect(dll.tailNode().isTail).toBe(true)
+    expect(dll.length).toEqual(2)
+    dll.append(3)
+    expect(dll.toArray()).toEqual([1,2,3])
+    expect([...dll.valuesRight()]).toEqual([3,2,1])
+
+    dll.remove(v => v === 3)
+    expect(dll.toArray()).toEqual([1,2])
+    expect(dll.tail()).toEqual(2)
+  })
+
+  test('Node ownership - Mutators reject nodes from other lists', () => {
+    let a = DLinkedList.fromArray([1,2,3])
+    let b = DLinkedList.fromArray([1,2,3])
+    let foreign = b.nodeAt(1)
+
+    expect(() => a.removeNode(foreign)).toThrow(ForeignNodeError)
+    expect(() => a.insertAfterNode(foreign, 4)).toThrow(ForeignNodeError)
+    expect(() => a.insertBeforeNode(foreign, 4)).toThrow('Node belongs to a different list.')
+    expect(a.toArray()).toEqual([1,2,3])
+    expect(b.toArray()).toEqual([1,2,3])
+
+    expect(() => a.removeNode(new Node(1))).toThrow(DetachedNodeError)
+  })
+
+  test('Node ownership - Mutators reject removed nodes', () => {
+    let dll = DLinkedList.fromArray([1,2,3,4,5])
+    let head = dll.headNode()
+    let middle = dll.nodeAt(2)
+    let tail = dll.tailNode()
+    let replaced = dll.nodeAt(1)
+
+    dll.removeNode(middle).removeHead().removeTail().setAt(0, 20)
+    expect(dll.toArray()).toEqual([20,4])
+
+    for (let node of [head, middle, tail, replaced]) {
+      expect(node.isAttached).toBe(false)
+      expect(node.isHead).toBe(false)
+      expect(node.isTail).toBe(false)
+      expect(node.next()).toBeNull()
+      expect(() => dll.removeNode(node)).toThrow(DetachedNodeError)
+      expect(() => dll.insertAfterNode(node, 0)).toThrow(DetachedNodeError)
+    }
+    expect(middle.value).toEqual(3)
+
+    let kept = dll.headNode()
+    dll.clear()
+    expect(kept.isAttached).toBe(false)
+    expect(() => dll.insertBeforeNode(kept, 0)).toThrow('Node has been removed from its list.')
+    dll.append(1)
+    expect(dll.headNode().isHead).toBe(true)
+    expect(dll.toArray()).toEqual([1])
+  })
+
+  test('.toJSON, .fromJSON - Round trips through JSON.stringify', () => {
+    let dll = DLinkedList.fromArray([{a: 1}, {a: 2}])
+    let json = JSON.stringify(dll)
+    expect(json).toEqual('{"values":[{"a":1},{"a":2}]}')
+    expect(DLinkedList.fromJSON(json).toArray()).toEqual([{a: 1}, {a: 2}])
+    expect(DLinkedList.fromJSON(dll.toJSON()).toArray()).toEqual([{a: 1}, {a: 2}])
+    expect(DLinkedList.fromJSON('[1,2,3]').toArray()).toEqual([1, 2, 3])
+    expect(() => DLinkedList.fromJSON('{"nope": true}')).toThrow(TypeError)
+
+    let nested = JSON.stringify({list: DLinkedList.fromArray([1])})
+    expect(nested).toEqual('{"list":{"values":[1]}}')
+  })
+
+  test('.toJSON, .fromJSON - Carry storage options as metadata', () => {
+    let dll = DLinkedList.fromArray([1], {cloner: 'deep', freeze: true})
+    let json = JSON.stringify(dll)
+    expect(json).toEqual('{"values":[1],"options":{"cloner":"deep","freeze":true}}')
+    let revived = DLinkedList.fromJSON(json)
+    expect(revived.cloner).toEqual('deep')
+    expect(revived.freeze).toBe(true)
+
+    expect(DLinkedList.fromJSON(json, {freeze: false}).freeze).toBe(false)
+    let custom = DLinkedList.fromArray([1], {cloner: v => v, proxy: true})
+    expect(custom.toJSON()).toEqual({values: [1], options: {proxy: true}})
+  })
+
+  test('.fromJSON - Applies a reviver', () => {
+    let json = JSON.stringify(DLinkedList.fromArray([{n: 1}, {n: 2}]))
+    let revived = DLinkedList.fromJSON(json, (key, value) => key === 'n' ? value * 10 : value)
+    expect(revived.toArray()).toEqual([{n: 10}, {n: 20}])
+
+    let fromObject = DLinkedList.fromJSON({values: [{n: 1}]}, {reviver: (key, value) => key === 'n' ? -value : value})
+    expect(fromObject.toArray()).toEqual([{n: -1}])
+  })
+
+  test('Codecs - Round trip Dates, Maps, Sets and domain classes', () => {
+    class Point {
+      constructor(public x: number, public y: number) {
+      }
+    }
+    let pointCodec: Codec<Point, number[]> = {
+      name: 'Point',
+      test: v => v instanceof Point,
+      encode: p => [p.x, p.y],
+      decode: ([x, y]) => new Point(x, y)
+    }
+    let codecs = [dateCodec, mapCodec, setCodec, pointCodec]
+    let dll = DLinkedList.fromArray<any>([
+      new Date(0),
+      {when: new Date(1000), where: new Point(1, 2)},
+      new Map([['a', new Set([1, 2])]])
+    ], {cloner: 'deep'})
+
+    let json = JSON.stringify(dll.toJSON({codecs}))
+    let revived = DLinkedList.fromJSON<any>(json, {codecs})
+    let [date, obj, map] = revived.toArray()
+
+    expect(date).toEqual(new Date(0))
+    expect(obj.when).toEqual(new Date(1000))
+    expect(obj.where).toBeInstanceOf(Point)
+    expect(obj.where.y).toEqual(2)
+    expect(map.get('a')).toEqual(new Set([1, 2]))
+    expect(revived.cloner).toEqual('deep')
+
+    expect(() => DLinkedList.fromJSON(json)).toThrow('No codec named "Date" was provided.')
+  })
+
+  test('.toNDJSON, .fromNDJSON - Streams one value per line', async () => {
+    let dll = DLinkedList.fromArray<any>([{a: 1}, 'two', new Date(0)])
+    let lines = [...dll.toNDJSON({codecs: [dateCodec]})]
+    expect(lines).toEqual(['{"a":1}\n', '"two"\n', '{"$codec":"Date","value":"1970-01-01T00:00:00.000Z"}\n'])
+
+    let text = lines.join('')
+    let chunks = [text.slice(0, 5), text.slice(5, 17), text.slice(17)]
+    let revived = await DLinkedList.fromNDJSON<any>(chunks, {codecs: [dateCodec], cloner: 'deep'})
+    expect(revived.toArray()).toEqual([{a: 1}, 'two', new Date(0)])
+    expect(revived.cloner).toEqual('deep')
+
+    let bytes = Buffer.from('"h\u00e9"\n\n"x"')
+    let split = [bytes.slice(0, 3), bytes.slice(3)]
+    expect((await DLinkedList.fromNDJSON(split)).toArray()).toEqual(['h\u00e9', 'x'])
+  })
+
+  test('.push, .pop, .shift, .unshift, .peekFront, .peekBack - Deque methods', () => {
+    let dll = new DLinkedList<number>()
+    expect(dll.push(3, 4)).toEqual(2)
+    expect(dll.unshift(1, 2)).toEqual(4)
+    expect(dll.toArray()).toEqual([1, 2, 3, 4])
+    expect(dll.peekFront()).toEqual(1)
+    expect(dll.peekBack()).toEqual(4)
+    expect(dll.pop()).toEqual(4)
+    expect(dll.shift()).toEqual(1)
+    expect(dll.toArray()).toEqual([2, 3])
+    expect(dll.length).toEqual(2)
+    dll.pop()
+    dll.pop()
+    expect(dll.pop()).toBeNull()
+    expect(dll.shift()).toBeNull()
+    expect(dll.peekFront()).toBeNull()
+    expect(dll.peekBack()).toBeNull()
+  })
+
+  test('capacity - drop-oldest removes values from the other end', () => {
+    let evicted = []
+    let dll = new DLinkedList<number>({capacity: 3, onEvict: v => evicted.push(v)})
+    expect(dll.overflow).toEqual('drop-oldest')
+    dll.push(1, 2, 3, 4, 5)
+    expect(dll.toArray()).toEqual([3, 4, 5])
+    expect(evicted).toEqual([1, 2])
+
+    dll.unshift(2)
+    expect(dll.toArray()).toEqual([2, 3, 4])
+    expect(evicted).toEqual([1, 2, 5])
+
+    dll.insertAfterNode(dll.nodeAt(1), 3.5)
+    expect(dll.toArray()).toEqual([3, 3.5, 4])
+    dll.insertBeforeNode(dll.nodeAt(1), 3.25)
+    expect(dll.toArray()).toEqual([3.25, 3.5, 4])
+    expect(dll.length).toEqual(3)
+    expect([...dll.valuesRight()]).toEqual([4, 3.5, 3.25])
+
+    dll.absorb(DLinkedList.fromArray([5, 6]))
+    expect(dll.toArray()).toEqual([4, 5, 6])
+    expect(dll.capacity).toEqual(3)
+  })
+
+  test('capacity - drop-newest leaves the list as it is', () => {
+    let evicted = []
+    let dll = DLinkedList.fromArray([1, 2, 3], {capacity: 3, overflow: 'drop-newest', onEvict: v => evicted.push(v)})
+    dll.push(4)
+    dll.unshift(0)
+    dll.insertAfterNode(dll.headNode(), 1.5)
+    dll.insertBeforeNode(dll.tailNode(), 2.5)
+    expect(dll.toArray()).toEqual([1, 2, 3])
+    expect(evicted).toEqual([4, 0, 1.5, 2.5])
+
+    dll.absorb(DLinkedList.fromArray([4, 5]))
+    expect(dll.toArray()).toEqual([1, 2, 3])
+    expect(evicted).toEqual([4, 0, 1.5, 2.5, 5, 4])
+
+    let quiet = DLinkedList.fromArray([1], {capacity: 1, overflow: 'drop-newest'})
+    quiet.append(2)
+    expect(quiet.toArray()).toEqual([1])
+  })
+
+  test('capacity - throw rejects values with a CapacityError', () => {
+    let dll = DLinkedList.fromArray([1, 2], {capacity: 2, overflow: 'throw'})
+    expect(() => dll.append(3)).toThrow(CapacityError)
+    expect(() => dll.prepend(0)).toThrow('List is at its capacity of 2.')
+    expect(() => dll.absorb(DLinkedList.fromArray([3]))).toThrow(RangeError)
+    expect(dll.toArray()).toEqual([1, 2])
+    dll.shift()
+    dll.push(3)
+    expect(dll.toArray()).toEqual([2, 3])
+
+    expect(() => new DLinkedList({capacity: 0})).toThrow(RangeError)
+    expect(() => new DLinkedList({capacity: 1.5})).toThrow(RangeError)
+    expect(() => new DLinkedList({overflow: 'drop-all' as any})).toThrow('Unknown overflow policy "drop-all".')
+  })
+
+  test('.uniq, .uniqBy - Drop repeated values', () => {
+    expect(DLinkedList.fromArray([1, 2, 1, 3, 2]).uniq().toArray()).toEqual([1, 2, 3])
+    let dll = DLinkedList.fromArray([{id: 1, v: 'a'}, {id: 2, v: 'b'}, {id: 1, v: 'c'}])
+    expect(dll.uniqBy(v => v.id).toArray()).toEqual([{id: 1, v: 'a'}, {id: 2, v: 'b'}])
+    expect(dll.length).toEqual(3)
+  })
+
+  test('.groupBy - Groups values into lists', () => {
+    let groups = DLinkedList.fromArray([1, 2, 3, 4, 5]).groupBy(v => v % 2 ? 'odd' : 'even')
+    expect(Array.from(groups.keys())).toEqual(['odd', 'even'])
+    expect(groups.get('odd')).toBeInstanceOf(DLinkedList)
+    expect(groups.get('odd').toArray()).toEqual([1, 3, 5])
+    expect(groups.get('even').toArray()).toEqual([2, 4])
+  })
+
+  test('.partition - Splits values by a predicate', () => {
+    let [small, large] = DLinkedList.fromArray([1, 2, 3, 4, 5]).partition(v => v < 3)
+    expect(small.toArray()).toEqual([1, 2])
+    expect(large.toArray()).toEqual([3, 4, 5])
+  })
+
+  test('.chunk - Splits values into arrays of a size', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    expect(dll.chunk(2).toArray()).toEqual([[1, 2], [3, 4], [5]])
+    expect(dll.chunk(5).toArray()).toEqual([[1, 2, 3, 4, 5]])
+    expect(new DLinkedList().chunk(3).length).toEqual(0)
+    expect(() => dll.chunk(0)).toThrow(RangeError)
+    expect(() => dll.chunk(1.5)).toThrow('Chunk size must be a positive integer, got 1.5.')
+  })
+
+  test('.zip, .zipWith - Pair values by position', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(dll.zip(['a', 'b']).toArray()).toEqual([[1, 'a'], [2, 'b']])
+    expect(dll.zip(DLinkedList.fromArray(['a', 'b', 'c', 'd'])).toArray()).toEqual([[1, 'a'], [2, 'b'], [3, 'c']])
+    expect(dll.zipWith([10, 20, 30], (a, b) => a + b).toArray()).toEqual([11, 22, 33])
+  })
+
+  test('.flatMap, .flatten - Flatten values one level', () => {
+    expect(DLinkedList.fromArray([1, 2]).flatMap(v => [v, v * 10]).toArray()).toEqual([1, 10, 2, 20])
+    let nested = DLinkedList.fromArray<any>([[1, 2], 3, [4, [5]], 'ab', new Set([6])])
+    expect(nested.flatten().toArray()).toEqual([1, 2, 3, 4, [5], 'ab', 6])
+    let lists = DLinkedList.fromArray([DLinkedList.fromArray([1]), DLinkedList.fromArray([2, 3])], {cloner: 'none'})
+    let flat: DLinkedList<number> = lists.flatten()
+    expect(flat.toArray()).toEqual([1, 2, 3])
+  })
+
+  test('.intersectionBy, .differenceBy - Compare against other values by key', () => {
+    let dll = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}, {id: 1}])
+    expect(dll.intersectionBy([{id: 3}, {id: 1}], v => v.id).toArray()).toEqual([{id: 1}, {id: 3}])
+    expect(dll.differenceBy([{id: 2}], v => v.id).toArray()).toEqual([{id: 1}, {id: 3}, {id: 1}])
+    let numbers = DLinkedList.fromArray([1, 2, 3, 2])
+    expect(numbers.intersectionBy(DLinkedList.fromArray([2, 3, 4])).toArray()).toEqual([2, 3])
+    expect(numbers.differenceBy(new Set([2])).toArray()).toEqual([1, 3])
+  })
+
+  test('.countBy, .keyBy - Index values in a Map', () => {
+    let dll = DLinkedList.fromArray([{id: 1, v: 'one'}, {id: 2, v: 'two'}, {id: 1, v: 'three'}])
+    expect(Array.from(dll.countBy(v => v.id))).toEqual([[1, 2], [2, 1]])
+    expect(Array.from(dll.keyBy(v => v.id))).toEqual([[1, {id: 1, v: 'three'}], [2, {id: 2, v: 'two'}]])
+  })
+
+  test('Collection methods hand out clones', () => {
+    let dll = DLinkedList.fromArray([{id: 1}, {id: 2}])
+    dll.groupBy(v => v.id).get(1).head().id = 10
+    dll.keyBy(v => v.id).get(2).id = 20
+    dll.chunk(1).head()[0].id = 30
+    dll.partition(() => true)[0].head().id = 40
+    dll.uniqBy(v => v.id).each((v: any) => v.id = 50)
+    expect(dll.toArray()).toEqual([{id: 1}, {id: 2}])
+  })
+
+  test('.validate - Passes intact lists', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(dll.validate()).toBe(dll)
+    expect(new DLinkedList().validate()).toBeInstanceOf(DLinkedList)
+    dll.splice(1, 1).validate()
+    dll.validate()
+  })
+
+  nodesOnly('.validate - Describes broken links with an InvariantError', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    dll.head_node.getNext().setPrev(null)
+    expect(() => dll.validate()).toThrow(InvariantError)
+    expect(() => dll.validate()).toThrow('The node at index 1 has a prev link that does not point to the node at index 0.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.head_node.setPrev(dll.tail_node)
+    expect(() => dll.validate()).toThrow('The head has a prev link.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.tail_node.setNext(dll.head_node)
+    expect(() => dll.validate()).toThrow('The tail has a next link.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.tail_node = dll.tail_node.getPrev()
+    expect(() => dll.validate()).toThrow('The tail has a next link.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.head_node.getNext().setNext(dll.head_node)
+    expect(() => dll.validate()).toThrow('The node at index 1 links back to the node at index 0, forming a cycle.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.length = 4
+    expect(() => dll.validate()).toThrow('3 nodes are reachable from the head but the length is 4.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    dll.head_node.getNext().setNext(null)
+    expect(() => dll.validate()).toThrow('The last node reachable from the head, at index 1, is not the tail.')
+
+    dll = DLinkedList.fromArray([1, 2, 3])
+    let other = DLinkedList.fromArray([4])
+    other.head_node.setPrev(dll.tail_node)
+    dll.tail_node.setNext(other.head_node)
+    dll.tail_node = other.head_node
+    dll.length = 4
+    expect(() => dll.validate()).toThrow('The node at index 3 does not belong to this list.')
+
+    dll = new DLinkedList<number>()
+    dll.length = 1
+    expect(() => dll.validate()).toThrow('The list has no nodes but its length is 1.')
+    dll = DLinkedList.fromArray([1])
+    dll.tail_node = null
+    expect(() => dll.validate()).toThrow('The tail is missing but the head is set.')
+  })
+
+  nodesOnly('DLinkedList.debug - Validates after every change', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    dll.length = 5
+    dll.append(4)
+    expect(dll.length).toEqual(6)
+    DLinkedList.debug = true
+    try {
+      expect(() => dll.append(5)).toThrow(InvariantError)
+      expect(() => dll.removeHead()).toThrow('4 nodes are reachable from the head but the length is 6.')
+      dll.length = 4
+      dll.append(6).moveToHead(dll.tailNode()).reverseInPlace().sort().splitAt(2)
+      expect(dll.toArray()).toEqual([2, 3])
+    } finally {
+      DLinkedList.debug = false
+    }
+  })
+
+  test('.modifications - Counts every change', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let before = dll.modifications
+    dll.append(4)
+    expect(dll.modifications).toBeGreaterThan(before)
+    before = dll.modifications
+    dll.toArray()
+    dll.each(v => v)
+    expect(dll.modifications).toEqual(before)
+    dll.moveToHead(dll.tailNode())
+    dll.clear()
+    expect(dll.modifications).toEqual(before + 2)
+  })
+
+  test('Iteration methods throw a ConcurrentModificationError when the list changes', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(() => dll.each(v => dll.append(v))).toThrow(ConcurrentModificationError)
+    expect(() => dll.eachRight(() => dll.removeHead())).toThrow('The list was modified during iteration.')
+    expect(() => dll.filter(() => dll.push(0) > 0)).toThrow(ConcurrentModificationError)
+    expect(() => dll.map(v => dll.removeTail())).toThrow(ConcurrentModificationError)
+    expect(() => dll.reduce((acc, v) => dll.shift(), 0)).toThrow(ConcurrentModificationError)
+    expect(() => dll.find(v => !dll.pop())).toThrow(ConcurrentModificationError)
+    expect(() => dll.groupBy(v => dll.append(v))).toThrow(ConcurrentModificationError)
+    expect(() => {
+      for (let v of dll) {
+        dll.append(v)
+      }
+    }).toThrow(ConcurrentModificationError)
+
+    let nodes = DLinkedList.fromArray([1, 2, 3])
+    expect(() => {
+      for (let node of nodes.nodes()) {
+        nodes.removeNode(node)
+      }
+    }).toThrow(ConcurrentModificationError)
+    expect(nodes.toArray()).toEqual([2, 3])
+  })
+
+  test('Iteration may end with a change, or stop early', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    dll.find(v => v === 2)
+    dll.remove(v => v === 2)
+    expect(dll.toArray()).toEqual([1, 3])
+    for (let v of dll) {
+      dll.append(4)
+      break
+    }
+    expect(dll.toArray()).toEqual([1, 3, 4])
+  })
+
+  test('.asyncReduce - Throws a ConcurrentModificationError when an awaited step changes the list', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let reduced = dll.asyncReduce(async (acc, v) => {
+      await delay(1)
+      return acc + v
+    }, 0)
+    dll.append(4)
+    await expect(reduced).rejects.toBeInstanceOf(ConcurrentModificationError)
+    await expect(dll.asyncReduceRight(async (acc, v) => {
+      dll.removeTail()
+      return acc + v
+    }, 0)).rejects.toThrow('The list was modified during iteration.')
+  })
+
+  test('iteration: snapshot - Walks the nodes captured when iteration started', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3], {iteration: 'snapshot'})
+    let seen = []
+    dll.each((v) => {
+      seen.push(v)
+      dll.append(v * 10)
+    })
+    expect(seen).toEqual([1, 2, 3])
+    expect(dll.toArray()).toEqual([1, 2, 3, 10, 20, 30])
+
+    seen = []
+    dll.eachRight((v) => {
+      seen.push(v)
+      dll.removeHead()
+    })
+    expect(seen).toEqual([30, 20, 10, 3, 2, 1])
+    expect(dll.length).toEqual(0)
+
+    dll.fromArray([1, 2, 3])
+    let sum = await dll.asyncReduce(async (acc, v) => {
+      dll.append(v)
+      return acc + v
+    }, 0)
+    expect(sum).toEqual(6)
+    expect(() => new DLinkedList({iteration: 'lazy' as any})).toThrow('Unknown iteration mode "lazy".')
+  })
+});
@@ -0,0 +1,133 @@
+/**
+ * @file Diff
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, SortedDLinkedList, KeyedDLinkedList, PatchError, PATCH_VERSION, deepEqual} from '../src/index'
+
+// Small deterministic generator, so failures can be reproduced.
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648
+  return seed / 2147483648
+}
+
+describe('deepEqual', () => {
+
+  test('Compares values structurally', () => {
+    expect(deepEqual({a: [1, {b: 2}]}, {a: [1, {b: 2}]})).toBe(true)
+    expect(deepEqual({a: 1}, {a: 1, b: undefined})).toBe(false)
+    expect(deepEqual([1, 2], [2, 1])).toBe(false)
+    expect(deepEqual(NaN, NaN)).toBe(true)
+    expect(deepEqual(new Date(5), new Date(5))).toBe(true)
+    expect(deepEqual(new Date(5), new Date(6))).toBe(false)
+    expect(deepEqual(/a/g, /a/g)).toBe(true)
+    expect(deepEqual(new Map([[1, {a: 1}]]), new Map([[1, {a: 1}]]))).toBe(true)
+    expect(deepEqual(new Map([[1, {a: 1}]]), new Map([[1, {a: 2}]]))).toBe(false)
+    expect(deepEqual(new Set([{a: 1}, 2]), new Set([2, {a: 1}]))).toBe(true)
+    expect(deepEqual(new Set([1]), new Set([2]))).toBe(false)
+    expect(deepEqual([], {})).toBe(false)
+    expect(deepEqual(null, {})).toBe(false)
+  })
+})
+
+describe('DLinkedList diffing', () => {
+
+  test('.equals - Compares values in order', () => {
+    let dll = DLinkedList.fromArray([{id: 1}, {id: 2}])
+    expect(DLinkedList.fromArray([1, 2, 3]).equals([1, 2, 3])).toBe(true)
+    expect(DLinkedList.fromArray([1, 2, 3]).equals(DLinkedList.fromArray([1, 2]))).toBe(false)
+    expect(DLinkedList.fromArray([1, 2]).equals([1, 2, 3])).toBe(false)
+    expect(DLinkedList.fromArray([1, 2]).equals(new Set([2, 1]))).toBe(false)
+    expect(dll.equals([{id: 1}, {id: 2}])).toBe(false)
+    expect(dll.equals([{id: 1}, {id: 2}], {deep: true})).toBe(true)
+    expect(dll.equals(DLinkedList.fromArray([{id: 1}, {id: 2}]), {deep: true})).toBe(true)
+    expect(dll.equals([{id: 1}, {id: 3}], {deep: true})).toBe(false)
+    expect(dll.equals([{id: 1}, {id: 2, name: 'b'}] as any, {comparator: (a, b) => a.id === b.id})).toBe(true)
+    expect(new DLinkedList<number>().equals([])).toBe(true)
+  })
+
+  test('.diff - Returns a minimal, versioned edit script', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    expect(dll.diff([1, 2, 3, 4])).toEqual({version: PATCH_VERSION, length: 4, ops: []})
+    expect(dll.diff([4, 1, 2, 5]).ops).toEqual([
+      {op: 'update', index: 2, value: 5},
+      {op: 'move', from: 3, to: 0}
+    ])
+    expect(dll.diff([1, 3]).ops).toEqual([{op: 'remove', index: 3}, {op: 'remove', index: 1}])
+    expect(dll.diff([0, 1, 2, 3, 4, 5]).ops).toEqual([{op: 'insert', index: 0, value: 0}, {op: 'insert', index: 5, value: 5}])
+    expect(dll.diff([2, 3, 4, 1]).ops).toEqual([{op: 'move', from: 0, to: 3}])
+    expect(DLinkedList.fromArray([NaN, 1, 2, 1]).diff([1, 2, 1, NaN]).ops).toEqual([{op: 'move', from: 0, to: 3}])
+    expect(new DLinkedList<number>().diff([1]).ops).toEqual([{op: 'insert', index: 0, value: 1}])
+    expect(dll.diff([]).ops.length).toEqual(4)
+  })
+
+  test('.diff - Matches values with deep and comparator', () => {
+    let dll = DLinkedList.fromArray([{id: 1, v: 'a'}, {id: 2, v: 'b'}])
+    expect(dll.diff([{id: 1, v: 'a'}, {id: 2, v: 'b'}], {deep: true}).ops).toEqual([])
+    expect(dll.diff([{id: 2, v: 'c'}, {id: 1, v: 'a'}], {comparator: (a, b) => a.id === b.id}).ops)
+      .toEqual([{op: 'move', from: 0, to: 1}])
+  })
+
+  test('.applyPatch - Replays a patch, keeping untouched nodes', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    let kept = dll.nodeAt(1)
+    let patch = dll.diff([4, 1, 2, 5, 6])
+    expect(dll.applyPatch(patch)).toBe(dll)
+    expect(dll.toArray()).toEqual([4, 1, 2, 5, 6])
+    expect(dll.nodeAt(2)).toBe(kept)
+    expect(kept.isAttached).toBe(true)
+  })
+
+  test('.applyPatch - Accepts patches sent as JSON', () => {
+    let server = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}])
+    let client = DLinkedList.fromArray([{id: 1}, {id: 2}, {id: 3}])
+    server.removeAt(0).append({id: 4}).moveToHead(server.tailNode())
+    client.applyPatch(JSON.stringify(client.diff(server, {deep: true})))
+    expect(client.equals(server, {deep: true})).toBe(true)
+  })
+
+  test('.applyPatch - Turns any list into any other', () => {
+    let next = random(7)
+    for (let run = 0; run < 200; run++) {
+      let from = Array.from({length: Math.floor(next() * 12)}, () => Math.floor(next() * 6))
+      let to = Array.from({length: Math.floor(next() * 12)}, () => Math.floor(next() * 6))
+      let dll = DLinkedList.fromArray(from)
+      let patch = dll.diff(to)
+      dll.applyPatch(JSON.parse(JSON.stringify(patch)))
+      expect(dll.toArray()).toEqual(to)
+      expect(dll.length).toEqual(to.length)
+      let removals = patch.ops.filter(op => op.op === 'remove').length
+      let inserts = patch.ops.filter(op => op.op === 'insert').length
+      expect(from.length - removals + inserts).toEqual(to.length)
+    }
+  })
+
+  test('.applyPatch - Rejects patches it cannot apply, leaving the list as it was', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(() => dll.applyPatch({version: 2, length: 3, ops: []})).toThrow(PatchError)
+    expect(() => dll.applyPatch({version: PATCH_VERSION, length: 4, ops: []}))
+      .toThrow('Patch was made for a list of length 4, not 3.')
+    expect(() => dll.applyPatch({ops: null} as any)).toThrow(PatchError)
+    expect(() => dll.applyPatch({
+      version: PATCH_VERSION,
+      length: 3,
+      ops: [{op: 'remove', index: 0}, {op: 'remove', index: 5}]
+    })).toThrow(PatchError)
+    expect(() => dll.applyPatch({version: PATCH_VERSION, length: 3, ops: [{op: 'swap'} as any]}))
+      .toThrow('Unknown patch operation {"op":"swap"}.')
+    expect(dll.toArray()).toEqual([1, 2, 3])
+  })
+
+  test('.applyPatch - Works with sorted and keyed lists', () => {
+    let sorted = SortedDLinkedList.fromArray([1, 3, 5])
+    sorted.applyPatch(sorted.diff([1, 2, 3, 5]))
+    expect(sorted.toArray()).toEqual([1, 2, 3, 5])
+
+    let keyed = KeyedDLinkedList.fromArray([{id: 1, v: 1}, {id: 2, v: 1}], {key: (v: {id: number, v: number}) => v.id})
+    keyed.applyPatch(keyed.diff([{id: 2, v: 2}, {id: 1, v: 1}], {deep: true}))
+    expect(keyed.toArray()).toEqual([{id: 2, v: 2}, {id: 1, v: 1}])
+    expect(keyed.getByKey(2)).toEqual({id: 2, v: 2})
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * @file Events
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, SortedDLinkedList, ChangeRecord} from '../src/index'
+
+/**
+ * Replays change records onto an array, so tests can check the records describe the list.
+ * @param target
+ * @param records
+ */
+const replay = (target: any[], records: ChangeRecord<any>[]) => {
+  records.forEach((record) => {
+    switch (record.kind) {
+      case 'insert':
+        target.splice(record.index, 0, record.value)
+        break
+      case 'remove':
+        target.splice(record.index, 1)
+        break
+      case 'update':
+        target[record.index] = record.value
+        break
+      case 'clear':
+        target.length = 0
+    }
+  })
+  return target
+}
+
+/**
+ * Subscribes to dll, mirroring it into an array and keeping every notification.
+ * @param dll
+ */
+const mirror = (dll: DLinkedList<any>) => {
+  let copy = dll.toArray()
+  let notifications: ChangeRecord<any>[][] = []
+  dll.subscribe((records) => {
+    notifications.push(records)
+    replay(copy, records)
+  })
+  return {copy, notifications}
+}
+
+describe('Change events', () => {
+
+  test('.on - Handlers receive records of their kind', () => {
+    let dll = DLinkedList.fromArray([1, 3])
+    let inserts = []
+    let removes = []
+    let updates = []
+    let clears = []
+    dll.on('insert', r => inserts.push(r))
+    dll.on('remove', r => removes.push(r))
+    dll.on('update', r => updates.push(r))
+    dll.on('clear', r => clears.push(r))
+
+    dll.insertAfterNode(dll.headNode(), 2)
+    expect(inserts).toEqual([{kind: 'insert', index: 1, value: 2, previous: null, prev: 1, next: 3}])
+
+    dll.setAt(0, 10)
+    expect(updates).toEqual([{kind: 'update', index: 0, value: 10, previous: 1, prev: null, next: 2}])
+
+    dll.removeNode(dll.nodeAt(1))
+    expect(removes).toEqual([{kind: 'remove', index: 1, value: 2, previous: null, prev: 10, next: 3}])
+
+    dll.clear()
+    expect(clears).toEqual([{kind: 'clear', index: 0, value: null, previous: null, prev: null, next: null}])
+    expect(inserts.length).toEqual(1)
+  })
+
+  test('Every basic mutator reports its change', () => {
+    let dll = DLinkedList.fromArray([2])
+    let {copy, notifications} = mirror(dll)
+
+    dll.append(3).prepend(1).insertBeforeNode(dll.tailNode(), 2.5).insertAfterNode(dll.tailNode(), 4)
+    expect(copy).toEqual([1, 2, 2.5, 3, 4])
+    dll.insertBeforeNode(dll.headNode(), 0)
+    dll.removeHead().removeTail().removeNode(dll.nodeAt(1))
+    expect(copy).toEqual([1, 2.5, 3])
+    expect(copy).toEqual(dll.toArray())
+    expect(notifications.every(records => records.length === 1)).toBe(true)
+
+    let head = notifications[1][0]
+    expect(head).toEqual({kind: 'insert', index: 0, value: 1, previous: null, prev: null, next: 2})
+    new DLinkedList<number>().removeHead().removeTail()
+  })
+
+  test('.on, .subscribe - Return a function that unregisters', () => {
+    let dll = new DLinkedList<number>()
+    let calls = 0
+    let off = dll.on('insert', () => calls += 1)
+    let unsubscribe = dll.subscribe(() => calls += 1)
+    dll.append(1)
+    off()
+    unsubscribe()
+    dll.append(2)
+    expect(calls).toEqual(2)
+  })
+
+  test('.fromArray, .batch - Deliver bulk changes as one notification', () => {
+    let dll = new DLinkedList<number>()
+    let {copy, notifications} = mirror(dll)
+    let inserts = 0
+    dll.on('insert', () => inserts += 1)
+
+    dll.fromArray([1, 2, 3])
+    expect(notifications.length).toEqual(1)
+    expect(notifications[0].map(r => r.value)).toEqual([1, 2, 3])
+    expect(inserts).toEqual(3)
+
+    dll.batch((list) => {
+      list.removeHead().append(4)
+      list.batch(inner => inner.setAt(0, 20))
+      expect(notifications.length).toEqual(1)
+    })
+    expect(notifications.length).toEqual(2)
+    expect(notifications[1].map(r => r.kind)).toEqual(['remove', 'insert', 'update'])
+    expect(copy).toEqual([20, 3, 4])
+
+    expect(() => dll.batch((list) => {
+      list.append(5)
+      throw new Error('failed')
+    })).toThrow('failed')
+    expect(notifications.length).toEqual(3)
+    expect(copy).toEqual(dll.toArray())
+    expect(dll.batch(() => null)).toBe(dll)
+    expect(notifications.length).toEqual(3)
+  })
+
+  test('Relinking operations report changes that replay correctly', () => {
+    let dll = DLinkedList.fromArray([5, 1, 4, 2, 3])
+    let {copy, notifications} = mirror(dll)
+
+    dll.sort()
+    expect(copy).toEqual([1, 2, 3, 4, 5])
+    dll.reverseInPlace()
+    expect(copy).toEqual([5, 4, 3, 2, 1])
+    dll.splice(1, 2, 40, 30)
+    expect(copy).toEqual([5, 40, 30, 2, 1])
+    dll.splitAt(3)
+    expect(copy).toEqual([5, 40, 30])
+    dll.splice(0, 1, 6)
+    expect(copy).toEqual([6, 40, 30])
+
+    let other = DLinkedList.fromArray([7, 8])
+    let otherMirror = mirror(other)
+    dll.absorb(other)
+    expect(copy).toEqual([6, 40, 30, 7, 8])
+    expect(otherMirror.copy).toEqual([])
+    expect(copy).toEqual(dll.toArray())
+    expect(notifications.length).toEqual(6)
+
+    let sorted = SortedDLinkedList.fromArray([1, 5])
+    let sortedMirror = mirror(sorted)
+    sorted.absorb(DLinkedList.fromArray([3]))
+    expect(sortedMirror.copy).toEqual([1, 3, 5])
+    expect(sortedMirror.notifications.length).toEqual(1)
+  })
+});
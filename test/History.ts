@@ -0,0 +1,228 @@
+/**
+ * @file History
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, SortedDLinkedList, ForeignNodeError} from '../src/index'
+
+const consistent = (dll: DLinkedList<any>) => {
+  expect([...dll.valuesRight()].reverse()).toEqual(dll.toArray())
+  expect(dll.toArray().length).toEqual(dll.length)
+}
+
+describe('Transactions', () => {
+
+  test('.transaction - Keeps every change when fn returns', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let notifications = []
+    dll.subscribe(records => notifications.push(records))
+    expect(dll.transaction((list) => {
+      list.removeHead().append(4).setAt(0, 20)
+    })).toBe(dll)
+    expect(dll.toArray()).toEqual([20, 3, 4])
+    expect(notifications.length).toEqual(1)
+    expect(notifications[0].map(r => r.kind)).toEqual(['remove', 'insert', 'update'])
+  })
+
+  test('.transaction - Rolls back links, length and handles when fn throws', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    let head = dll.headNode()
+    let third = dll.nodeAt(2)
+    let notifications = []
+    dll.subscribe(records => notifications.push(records))
+
+    expect(() => dll.transaction((list) => {
+      list.removeHead().removeNode(third).reverseInPlace().splice(1, 1, 9, 9).append(5)
+      list.insertAfter(v => v === 100, 6)
+    })).toThrow('Unable to find a node matching predicate.')
+
+    expect(dll.toArray()).toEqual([1, 2, 3, 4])
+    expect(dll.length).toEqual(4)
+    expect(dll.head()).toEqual(1)
+    expect(dll.tail()).toEqual(4)
+    consistent(dll)
+    expect(notifications).toEqual([])
+    expect(head.isAttached).toBe(true)
+    expect(third.isAttached).toBe(true)
+    dll.insertAfterNode(third, 3.5)
+    expect(dll.toArray()).toEqual([1, 2, 3, 3.5, 4])
+  })
+
+  test('.transaction - Rolls back a clear and leaves moved nodes with their new list', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let rest: DLinkedList<number>
+    expect(() => dll.transaction((list) => {
+      rest = list.splitAt(1)[1]
+      list.clear()
+      throw new Error('failed')
+    })).toThrow('failed')
+
+    expect(dll.toArray()).toEqual([1, 2, 3])
+    consistent(dll)
+    expect(rest.toArray()).toEqual([2, 3])
+    expect(() => dll.removeNode(rest.headNode())).toThrow(ForeignNodeError)
+    dll.removeNode(dll.tailNode())
+    expect(dll.toArray()).toEqual([1, 2])
+    expect(rest.toArray()).toEqual([2, 3])
+  })
+
+  test('.transaction - Nested inside a batch only discards its own changes', () => {
+    let dll = DLinkedList.fromArray([1])
+    let notifications = []
+    dll.subscribe(records => notifications.push(records))
+    dll.batch((list) => {
+      list.append(2)
+      try {
+        list.transaction((inner) => {
+          inner.append(3)
+          throw new Error('failed')
+        })
+      } catch (err) {
+        list.append(4)
+      }
+    })
+    expect(dll.toArray()).toEqual([1, 2, 4])
+    expect(notifications.length).toEqual(1)
+    expect(notifications[0].map(r => r.value)).toEqual([2, 4])
+  })
+});
+
+describe('History', () => {
+
+  test('.undo, .redo - Step through every mutating method', () => {
+    let dll = new DLinkedList<number>({history: true})
+    expect(dll.canUndo).toBe(false)
+    dll.fromArray([3, 1, 2])
+    dll.append(4)
+    dll.sort()
+    dll.removeNode(dll.nodeAt(1))
+    dll.setAt(0, 10)
+    dll.splice(0, 1)
+    dll.clear()
+    expect(dll.toArray()).toEqual([])
+
+    let states = []
+    while (dll.canUndo) {
+      dll.undo()
+      states.push(dll.toArray())
+      consistent(dll)
+    }
+    expect(states).toEqual([[3, 4], [10, 3, 4], [1, 3, 4], [1, 2, 3, 4], [3, 1, 2, 4], [3, 1, 2], []])
+    expect(dll.undo().toArray()).toEqual([])
+
+    dll.redo().redo()
+    expect(dll.toArray()).toEqual([3, 1, 2, 4])
+    expect(dll.canRedo).toBe(true)
+    dll.append(5)
+    expect(dll.canRedo).toBe(false)
+    expect(dll.redo().toArray()).toEqual([3, 1, 2, 4, 5])
+  })
+
+  test('.undo - Keeps node handles valid and tells subscribers', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3], {history: true})
+    let middle = dll.nodeAt(1)
+    dll.removeNode(middle)
+    expect(middle.isAttached).toBe(false)
+
+    let notifications = []
+    dll.subscribe(records => notifications.push(records))
+    dll.undo()
+    expect(middle.isAttached).toBe(true)
+    expect(notifications.length).toEqual(1)
+    expect(notifications[0].map(r => r.kind)).toEqual(['clear', 'insert', 'insert', 'insert'])
+    dll.insertAfterNode(middle, 2.5)
+    expect(dll.toArray()).toEqual([1, 2, 2.5, 3])
+    expect(dll.canRedo).toBe(false)
+  })
+
+  test('.batch, .transaction - Count as single steps', () => {
+    let dll = DLinkedList.fromArray([1], {history: true})
+    dll.batch(list => list.append(2).append(3))
+    dll.transaction(list => list.removeHead().removeHead())
+    expect(() => dll.transaction((list) => {
+      list.clear()
+      throw new Error('failed')
+    })).toThrow('failed')
+
+    expect(dll.toArray()).toEqual([3])
+    dll.undo()
+    expect(dll.toArray()).toEqual([1, 2, 3])
+    dll.undo()
+    expect(dll.toArray()).toEqual([1])
+    expect(() => dll.batch(list => list.undo())).toThrow('History cannot be used inside a batch or transaction.')
+  })
+
+  test('capacity, .push, .unshift, .absorb - Count an insert and its evictions as a single step', () => {
+    let dll = new DLinkedList<number>({capacity: 2, history: true})
+    let notifications = 0
+    dll.subscribe(() => notifications += 1)
+    dll.append(1).append(2).append(3)
+    expect(notifications).toEqual(3)
+    dll.undo()
+    expect(dll.toArray()).toEqual([1, 2])
+
+    let pushed = DLinkedList.fromArray([0], {history: true})
+    pushed.push(1, 2, 3)
+    pushed.unshift(-2, -1)
+    expect(pushed.toArray()).toEqual([-2, -1, 0, 1, 2, 3])
+    pushed.undo()
+    expect(pushed.toArray()).toEqual([0, 1, 2, 3])
+    pushed.undo()
+    expect(pushed.toArray()).toEqual([0])
+
+    let capped = DLinkedList.fromArray([1, 2], {capacity: 3, history: true})
+    notifications = 0
+    capped.subscribe(() => notifications += 1)
+    capped.absorb(DLinkedList.fromArray([3, 4, 5]))
+    expect(capped.toArray()).toEqual([3, 4, 5])
+    expect(notifications).toEqual(1)
+    capped.undo()
+    expect(capped.toArray()).toEqual([1, 2])
+  })
+
+  test('.checkpoint - Undo and redo by label', () => {
+    let dll = new DLinkedList<string>({history: true})
+    dll.append('a').checkpoint('one')
+    dll.append('b').append('c').checkpoint('three')
+    dll.append('d')
+
+    dll.undo('one')
+    expect(dll.toArray()).toEqual(['a'])
+    dll.redo('three')
+    expect(dll.toArray()).toEqual(['a', 'b', 'c'])
+    expect(() => dll.undo('missing')).toThrow('No checkpoint labeled "missing" was found.')
+    expect(() => dll.redo('one')).toThrow('No checkpoint labeled "one" was found.')
+    expect(dll.toArray()).toEqual(['a', 'b', 'c'])
+  })
+
+  test('depth - Forgets the oldest steps', () => {
+    let dll = new DLinkedList<number>({history: {depth: 2}})
+    dll.append(1).append(2).append(3)
+    dll.undo().undo()
+    expect(dll.toArray()).toEqual([1])
+    expect(dll.canUndo).toBe(false)
+    expect(() => new DLinkedList({history: {depth: -1}})).toThrow(RangeError)
+  })
+
+  test('.clearHistory - Forgets every step', () => {
+    let dll = SortedDLinkedList.fromArray([3, 1, 2], {history: true})
+    expect(dll.canUndo).toBe(true)
+    dll.clearHistory()
+    expect(dll.canUndo).toBe(false)
+    dll.append(0)
+    dll.undo()
+    expect(dll.toArray()).toEqual([1, 2, 3])
+  })
+
+  test('Lists without history reject history methods', () => {
+    let dll = DLinkedList.fromArray([1])
+    expect(dll.canUndo).toBe(false)
+    expect(dll.canRedo).toBe(false)
+    expect(() => dll.undo()).toThrow('History is not enabled for this list')
+    expect(() => dll.redo()).toThrow('History is not enabled for this list')
+    expect(() => dll.checkpoint('a')).toThrow('History is not enabled for this list')
+    expect(() => dll.clearHistory()).toThrow('History is not enabled for this list')
+  })
+});
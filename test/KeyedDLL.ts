@@ -0,0 +1,190 @@
+/**
+ * @file KeyedDLL
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {KeyedDLinkedList, DuplicateKeyError, DLinkedList, SortedDLinkedList} from '../src/index'
+
+interface User {
+  id: number
+  team: string
+}
+
+const users = (): User[] => [{id: 1, team: 'a'}, {id: 2, team: 'b'}, {id: 3, team: 'a'}]
+const options = {key: (u: User) => u.id, indexes: {team: (u: User) => u.team}}
+const ids = (dll: DLinkedList<User>) => dll.toArray().map(u => u.id)
+
+describe('KeyedDLinkedList', () => {
+
+  test('.getByKey, .nodeByKey, .hasKey - Look values up by key', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    expect(dll).toBeInstanceOf(DLinkedList)
+    expect(dll.getByKey(2)).toEqual({id: 2, team: 'b'})
+    expect(dll.getByKey(4)).toBeNull()
+    expect(dll.nodeByKey(3).value).toEqual({id: 3, team: 'a'})
+    expect(dll.nodeByKey(3).isTail).toBe(true)
+    expect(dll.nodeByKey(4)).toBeNull()
+    expect(dll.hasKey(1)).toBe(true)
+    expect(dll.hasKey(4)).toBe(false)
+  })
+
+  test('Requires a key function', () => {
+    expect(() => new KeyedDLinkedList<number, User>({key: null})).toThrow(TypeError)
+  })
+
+  test('Rejects duplicate keys, leaving the list as it was', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    expect(() => dll.append({id: 2, team: 'c'})).toThrow(DuplicateKeyError)
+    expect(() => dll.insertAt(1, {id: 1, team: 'c'})).toThrow('A value with key "1" is already in the list.')
+    expect(() => dll.setAt(0, {id: 3, team: 'c'})).toThrow(DuplicateKeyError)
+    expect(ids(dll)).toEqual([1, 2, 3])
+    expect(dll.getByIndex('team', 'c')).toEqual([])
+    expect(() => KeyedDLinkedList.fromArray([{id: 1, team: 'a'}, {id: 1, team: 'b'}], options)).toThrow(DuplicateKeyError)
+  })
+
+  test('.setAt - Replacing a value may keep its key', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    dll.setAt(1, {id: 2, team: 'a'})
+    expect(dll.getByKey(2)).toEqual({id: 2, team: 'a'})
+    expect(dll.getByIndex('team', 'a').map(u => u.id)).toEqual([1, 3, 2])
+    expect(dll.getByIndex('team', 'b')).toEqual([])
+  })
+
+  test('.removeByKey - Removes the value stored under a key', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    expect(dll.removeByKey(2)).toBe(dll)
+    expect(ids(dll)).toEqual([1, 3])
+    expect(dll.hasKey(2)).toBe(false)
+    dll.removeByKey(4)
+    expect(ids(dll)).toEqual([1, 3])
+    dll.append({id: 2, team: 'b'})
+    expect(ids(dll)).toEqual([1, 3, 2])
+  })
+
+  test('.insertAfterKey, .insertBeforeKey - Insert next to a key', () => {
+    let dll = KeyedDLinkedList.fromArray([{id: 1, team: 'a'}, {id: 3, team: 'a'}], options)
+    dll.insertAfterKey(1, {id: 2, team: 'b'}).insertBeforeKey(1, {id: 0, team: 'b'})
+    expect(ids(dll)).toEqual([0, 1, 2, 3])
+    expect(dll.getByIndex('team', 'b').map(u => u.id)).toEqual([2, 0])
+    expect(() => dll.insertAfterKey(9, {id: 4, team: 'a'})).toThrow('No value with key "9" was found.')
+  })
+
+  test('.moveBeforeKey, .moveAfterKey - Relink values by key', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    let node = dll.nodeByKey(3)
+    dll.moveBeforeKey(3, 1)
+    expect(ids(dll)).toEqual([3, 1, 2])
+    dll.moveAfterKey(3, 2)
+    expect(ids(dll)).toEqual([1, 2, 3])
+    dll.moveAfterKey(1, 2)
+    expect(ids(dll)).toEqual([2, 1, 3])
+    dll.moveBeforeKey(3, 1)
+    expect(ids(dll)).toEqual([2, 3, 1])
+    expect(dll.nodeByKey(3)).toBe(node)
+    expect(() => dll.moveBeforeKey(1, 9)).toThrow(Error)
+  })
+
+  test('.moveBeforeNode, .moveAfterNode - Relink nodes of any list', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    dll.moveBeforeNode(dll.tailNode(), dll.nodeAt(1))
+    expect(dll.toArray()).toEqual([1, 4, 2, 3])
+    dll.moveAfterNode(dll.headNode(), dll.nodeAt(2))
+    expect(dll.toArray()).toEqual([4, 2, 1, 3])
+    dll.moveAfterNode(dll.nodeAt(1), dll.tailNode())
+    expect(dll.toArray()).toEqual([4, 1, 3, 2])
+    dll.moveBeforeNode(dll.nodeAt(2), dll.headNode())
+    expect(dll.toArray()).toEqual([3, 4, 1, 2])
+    dll.moveBeforeNode(dll.headNode(), dll.headNode())
+    expect(dll.toArray()).toEqual([3, 4, 1, 2])
+    expect(dll.tail()).toEqual(2)
+    expect(dll.length).toEqual(4)
+
+    let sorted = SortedDLinkedList.fromArray([1, 2])
+    expect(() => sorted.moveBeforeNode(sorted.tailNode(), sorted.headNode())).toThrow(TypeError)
+  })
+
+  test('.moveBeforeNode - Reports the move as a removal and an insert', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let records = []
+    dll.subscribe(batch => records.push(...batch))
+    dll.moveBeforeNode(dll.tailNode(), dll.nodeAt(1))
+    expect(records.map(r => [r.kind, r.index, r.value])).toEqual([['remove', 2, 3], ['insert', 1, 3]])
+  })
+
+  test('Keeps keys and indexes in sync with removeHead, removeTail, pop, shift and clear', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    dll.removeHead()
+    expect(dll.hasKey(1)).toBe(false)
+    expect(dll.getByIndex('team', 'a').map(u => u.id)).toEqual([3])
+    dll.removeTail()
+    expect(dll.hasKey(3)).toBe(false)
+    expect(dll.getByIndex('team', 'a')).toEqual([])
+    dll.push({id: 1, team: 'a'}, {id: 3, team: 'a'})
+    dll.pop()
+    dll.shift()
+    expect(ids(dll)).toEqual([1])
+    dll.clear()
+    expect(dll.hasKey(1)).toBe(false)
+    expect(dll.getByIndex('team', 'a')).toEqual([])
+    dll.fromArray(users())
+    expect(ids(dll)).toEqual([1, 2, 3])
+    expect(() => dll.getByIndex('role', 'x')).toThrow('No index named "role" was defined.')
+  })
+
+  test('Keeps keys in sync with splice, splitAt and absorb', () => {
+    let dll = KeyedDLinkedList.fromArray(users(), options)
+    let removed = dll.splice(1, 1, {id: 4, team: 'b'})
+    expect(ids(removed)).toEqual([2])
+    expect(dll.hasKey(2)).toBe(false)
+    expect(dll.getByIndex('team', 'b').map(u => u.id)).toEqual([4])
+
+    let [, rest] = dll.splitAt(1)
+    expect(ids(dll)).toEqual([1])
+    expect(dll.hasKey(4)).toBe(false)
+    expect(dll.hasKey(3)).toBe(false)
+
+    dll.absorb(rest)
+    expect(ids(dll)).toEqual([1, 4, 3])
+    expect(dll.getByKey(3)).toEqual({id: 3, team: 'a'})
+    expect(dll.getByIndex('team', 'a').map(u => u.id)).toEqual([1, 3])
+
+    let other = DLinkedList.fromArray([{id: 5, team: 'c'}, {id: 1, team: 'c'}])
+    expect(() => dll.absorb(other)).toThrow(DuplicateKeyError)
+    expect(ids(dll)).toEqual([1, 4, 3])
+    expect(other.length).toEqual(2)
+
+    let keyed = KeyedDLinkedList.fromArray([{id: 9, team: 'c'}], options)
+    dll.absorb(keyed)
+    expect(dll.hasKey(9)).toBe(true)
+    expect(keyed.hasKey(9)).toBe(false)
+    keyed.append({id: 9, team: 'c'})
+    expect(keyed.length).toEqual(1)
+  })
+
+  test('Keeps keys in sync with transactions, undo and redo', () => {
+    let dll = new KeyedDLinkedList<number, User>({...options, history: true})
+    dll.fromArray(users())
+    expect(() => dll.transaction((list) => {
+      list.removeHead()
+      list.append({id: 3, team: 'c'})
+    })).toThrow(DuplicateKeyError)
+    expect(ids(dll)).toEqual([1, 2, 3])
+    expect(dll.hasKey(1)).toBe(true)
+
+    dll.removeByKey(2)
+    expect(dll.hasKey(2)).toBe(false)
+    dll.undo()
+    expect(dll.getByKey(2)).toEqual({id: 2, team: 'b'})
+    expect(dll.getByIndex('team', 'b').map(u => u.id)).toEqual([2])
+    dll.redo()
+    expect(dll.hasKey(2)).toBe(false)
+    expect(dll.getByIndex('team', 'b')).toEqual([])
+  })
+
+  test('.from - Builds a keyed list from any iterable', () => {
+    let dll = KeyedDLinkedList.from(new Set(users()), {key: (u: User) => u.team + u.id})
+    expect(dll.getByKey('b2')).toEqual({id: 2, team: 'b'})
+  })
+})
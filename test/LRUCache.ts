@@ -0,0 +1,137 @@
+/**
+ * @file LRUCache
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {LRUCache, DLinkedList, SortedDLinkedList} from '../src/index'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('LRUCache', () => {
+
+  test('.get, .set, .has, .peek - Store values without cloning', () => {
+    let cache = new LRUCache<string, {n: number}>()
+    let value = {n: 1}
+    expect(cache.set('a', value)).toBe(cache)
+    expect(cache.get('a')).toBe(value)
+    expect(cache.peek('a')).toBe(value)
+    expect(cache.has('a')).toBe(true)
+    expect(cache.has('b')).toBe(false)
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.peek('b')).toBeUndefined()
+    expect(cache.size).toEqual(1)
+    expect(cache.maxSize).toEqual(Infinity)
+  })
+
+  test('Evicts the least recently used entries', () => {
+    let evicted = []
+    let cache = new LRUCache<string, number>({maxSize: 3, onEvict: (k, v, reason) => evicted.push([k, v, reason])})
+    cache.set('a', 1).set('b', 2).set('c', 3)
+    expect([...cache.keys()]).toEqual(['c', 'b', 'a'])
+
+    cache.get('a')
+    cache.peek('b')
+    cache.has('b')
+    expect([...cache.keys()]).toEqual(['a', 'c', 'b'])
+
+    cache.set('d', 4)
+    expect(evicted).toEqual([['b', 2, 'size']])
+    expect([...cache]).toEqual([['d', 4], ['a', 1], ['c', 3]])
+
+    cache.set('c', 30)
+    expect([...cache.values()]).toEqual([30, 4, 1])
+    expect(cache.size).toEqual(3)
+    expect(evicted.length).toEqual(1)
+
+    cache.set('e', 5).set('f', 6)
+    expect([...cache.keys()]).toEqual(['f', 'e', 'c'])
+    expect(evicted.map(e => e[0])).toEqual(['b', 'a', 'd'])
+  })
+
+  test('Evicting and deleting the tail keeps recency order intact', () => {
+    let cache = new LRUCache<number, number>({maxSize: 2})
+    for (let i = 0; i < 10; i++) {
+      cache.set(i, i)
+      cache.get(i - 1)
+    }
+    expect([...cache.keys()]).toEqual([8, 9])
+    expect(cache.delete(9)).toBe(true)
+    expect(cache.delete(9)).toBe(false)
+    cache.set(10, 10)
+    expect([...cache.keys()]).toEqual([10, 8])
+    cache.delete(8)
+    cache.delete(10)
+    expect([...cache.keys()]).toEqual([])
+    cache.set(11, 11)
+    expect(cache.get(11)).toEqual(11)
+  })
+
+  test('sizeCalculation - Measures entries against maxSize', () => {
+    let cache = new LRUCache<string, string>({maxSize: 10, sizeCalculation: v => v.length})
+    cache.set('a', 'aaaa').set('b', 'bbbb')
+    expect(cache.calculatedSize).toEqual(8)
+    cache.set('a', 'aa')
+    expect(cache.calculatedSize).toEqual(6)
+    cache.set('c', 'cccccc')
+    expect([...cache.keys()]).toEqual(['c', 'a'])
+    expect(cache.calculatedSize).toEqual(8)
+    expect(() => cache.set('d', 'x'.repeat(11))).toThrow(RangeError)
+    expect(() => new LRUCache<string, string>({sizeCalculation: () => -1}).set('a', 'a')).toThrow(TypeError)
+    expect(() => new LRUCache({maxSize: 0})).toThrow(RangeError)
+
+    cache.clear()
+    expect(cache.size).toEqual(0)
+    expect(cache.calculatedSize).toEqual(0)
+    expect([...cache]).toEqual([])
+  })
+
+  test('ttl - Expires entries for the cache or per entry', async () => {
+    let evicted = []
+    let cache = new LRUCache<string, number>({ttl: 20, onEvict: (k, v, reason) => evicted.push([k, reason])})
+    cache.set('a', 1).set('b', 2, {ttl: 0}).set('c', 3, {ttl: 1000}).set('d', 4)
+    expect(cache.get('a')).toEqual(1)
+    await delay(40)
+
+    expect([...cache.keys()]).toEqual(['c', 'b'])
+    expect(cache.size).toEqual(4)
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.has('a')).toBe(false)
+    expect(evicted).toEqual([['a', 'expired']])
+
+    cache.prune()
+    expect(cache.size).toEqual(2)
+    expect(evicted).toEqual([['a', 'expired'], ['d', 'expired']])
+    expect(cache.peek('b')).toEqual(2)
+    expect(cache.ttl).toEqual(20)
+  })
+});
+
+describe('.moveToHead, .moveToTail', () => {
+
+  test('Relink a node to either end', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    let changes = []
+    dll.subscribe(records => changes.push(records.map(r => [r.kind, r.index, r.value])))
+
+    dll.moveToHead(dll.nodeAt(2))
+    expect(dll.toArray()).toEqual([3, 1, 2, 4])
+    dll.moveToHead(dll.tailNode())
+    expect(dll.toArray()).toEqual([4, 3, 1, 2])
+    expect(dll.tail()).toEqual(2)
+    dll.moveToTail(dll.headNode())
+    expect(dll.toArray()).toEqual([3, 1, 2, 4])
+    dll.moveToTail(dll.nodeAt(1))
+    expect(dll.toArray()).toEqual([3, 2, 4, 1])
+    expect([...dll.valuesRight()]).toEqual([1, 4, 2, 3])
+    dll.moveToHead(dll.headNode()).moveToTail(dll.tailNode())
+    expect(changes[0]).toEqual([['remove', 2, 3], ['insert', 0, 3]])
+    expect(changes.length).toEqual(4)
+
+    expect(() => dll.moveToHead(DLinkedList.fromArray([1]).headNode())).toThrow()
+    let sorted = SortedDLinkedList.fromArray([1, 2])
+    expect(() => sorted.moveToHead(sorted.tailNode())).toThrow(TypeError)
+    expect(() => sorted.moveToTail(sorted.headNode())).toThrow(TypeError)
+  })
+});
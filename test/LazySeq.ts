@@ -0,0 +1,121 @@
+/**
+ * @file LazySeq
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, LazySeq} from '../src/index'
+
+/**
+ * A list whose cloner counts how many times values are read back out.
+ * @param values
+ */
+const counted = (values: number[]) => {
+  let reads = {count: 0}
+  let dll = DLinkedList.fromArray(values, {
+    cloner: (v) => {
+      reads.count += 1
+      return v
+    }
+  })
+  reads.count = 0
+  return {dll, reads}
+}
+
+describe('LazySeq', () => {
+
+  test('.lazy - Runs fused stages in a single pass', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5, 6])
+    let order = []
+    let result = dll.lazy()
+      .map(v => {
+        order.push(`map ${v}`)
+        return v * 2
+      })
+      .filter(v => {
+        order.push(`filter ${v}`)
+        return v > 4
+      })
+      .toArray()
+
+    expect(result).toEqual([6, 8, 10, 12])
+    expect(order.slice(0, 4)).toEqual(['map 1', 'filter 2', 'map 2', 'filter 4'])
+  })
+
+  test('Operators describe the pipeline without reading', () => {
+    let {dll, reads} = counted([1, 2, 3])
+    let seq = dll.lazy().map(v => v * 2).filter(v => v > 0)
+    expect(seq).toBeInstanceOf(LazySeq)
+    expect(reads.count).toEqual(0)
+    expect(seq.toArray()).toEqual([2, 4, 6])
+    expect(reads.count).toEqual(3)
+
+    dll.append(4)
+    expect(seq.toArray()).toEqual([2, 4, 6, 8])
+  })
+
+  test('.first, .take, .takeWhile - Stop walking nodes early', () => {
+    let {dll, reads} = counted([1, 2, 3, 4, 5, 6])
+    expect(dll.lazy().filter(v => v > 2).first()).toEqual(3)
+    expect(reads.count).toEqual(3)
+
+    reads.count = 0
+    expect(dll.lazy().take(2).toArray()).toEqual([1, 2])
+    expect(reads.count).toEqual(2)
+
+    reads.count = 0
+    expect(dll.lazy().take(0).toArray()).toEqual([])
+    expect(reads.count).toEqual(0)
+
+    reads.count = 0
+    expect(dll.lazy().takeWhile(v => v < 3).toArray()).toEqual([1, 2])
+    expect(reads.count).toEqual(3)
+
+    expect(dll.lazy().filter(v => v > 10).first()).toBeNull()
+    expect(dll.lazy().take(10).toArray()).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  test('.flatMap, .skip, .scan - Reshape the values', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(dll.lazy().flatMap(v => [v, v * 10]).toArray()).toEqual([1, 10, 2, 20, 3, 30])
+    expect(dll.lazy().skip(1).toArray()).toEqual([2, 3])
+    expect(dll.lazy().skip(5).toArray()).toEqual([])
+    expect(dll.lazy().scan((acc, v) => acc + v, 0).toArray()).toEqual([1, 3, 6])
+    expect(dll.lazy().flatMap(v => [v, v]).skip(1).take(3).toArray()).toEqual([1, 2, 2])
+  })
+
+  test('.zip - Pairs values and stops at the shorter side', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    expect(dll.lazy().zip(['a', 'b']).toArray()).toEqual([[1, 'a'], [2, 'b']])
+    expect(dll.lazy().zip(DLinkedList.fromArray(['a', 'b', 'c', 'd'])).toArray())
+      .toEqual([[1, 'a'], [2, 'b'], [3, 'c']])
+
+    let closed = false
+    function* letters() {
+      try {
+        yield 'a'
+        yield 'b'
+      } finally {
+        closed = true
+      }
+    }
+    expect(dll.lazy().zip(letters()).first()).toEqual([1, 'a'])
+    expect(closed).toBe(true)
+  })
+
+  test('.toList, .reduce, .forEach - Terminal operations', () => {
+    let dll = DLinkedList.fromArray([{a: 1}, {a: 2}], {freeze: true})
+    let list = dll.lazy().map(v => ({a: v.a * 2})).toList()
+    expect(list).toBeInstanceOf(DLinkedList)
+    expect(list.toArray()).toEqual([{a: 2}, {a: 4}])
+    expect(list.freeze).toBe(true)
+
+    expect(dll.lazy().reduce((acc, v) => acc + v.a, 0)).toEqual(3)
+    let seen = []
+    dll.lazy().forEach(v => seen.push(v.a))
+    expect(seen).toEqual([1, 2])
+    expect([...dll.lazy()]).toEqual([{a: 1}, {a: 2}])
+    expect(LazySeq.of(new Set([1, 2])).map(v => v + 1).toList().toArray()).toEqual([2, 3])
+  })
+});
@@ -0,0 +1,185 @@
+/**
+ * @file PersistentDLL
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, PersistentDLinkedList, ReadOnlyViewError} from '../src/index'
+
+describe('Persistent Double Linked List', () => {
+
+  test('.append, .prepend - Return new lists and leave the original untouched.', () => {
+    let empty = new PersistentDLinkedList<number>()
+    let a = empty.append(2).append(3)
+    let b = a.prepend(1)
+    let c = a.append(4)
+
+    expect(empty.toArray()).toEqual([])
+    expect(a.toArray()).toEqual([2, 3])
+    expect(b.toArray()).toEqual([1, 2, 3])
+    expect(c.toArray()).toEqual([2, 3, 4])
+    expect(c.length).toEqual(3)
+    expect(a.length).toEqual(2)
+  })
+
+  test('.head, .tail - Read either end of the list', () => {
+    let appended = new PersistentDLinkedList<number>().append(1).append(2).append(3)
+    expect(appended.head()).toEqual(1)
+    expect(appended.tail()).toEqual(3)
+
+    let prepended = new PersistentDLinkedList<number>().prepend(3).prepend(2).prepend(1)
+    expect(prepended.head()).toEqual(1)
+    expect(prepended.tail()).toEqual(3)
+
+    let empty = new PersistentDLinkedList<number>()
+    expect(empty.head()).toBeNull()
+    expect(empty.tail()).toBeNull()
+  })
+
+  test('.removeHead, .removeTail - Shrink a copy of the list', () => {
+    let a = PersistentDLinkedList.fromArray([1, 2, 3, 4])
+    let b = a.removeHead().removeTail()
+    expect(b.toArray()).toEqual([2, 3])
+    expect(a.toArray()).toEqual([1, 2, 3, 4])
+    expect(b.removeHead().removeHead().removeHead().toArray()).toEqual([])
+
+    let appended = new PersistentDLinkedList<number>().append(1)
+    expect(appended.removeHead().toArray()).toEqual([])
+    expect(appended.removeTail().toArray()).toEqual([])
+    let prepended = new PersistentDLinkedList<number>().prepend(1)
+    expect(prepended.removeHead().length).toEqual(0)
+    expect(prepended.removeTail().length).toEqual(0)
+  })
+
+  test('.insertAfter, .insertBefore, .remove - Edit by predicate on both halves', () => {
+    let a = PersistentDLinkedList.fromArray([1, 3]).append(5).append(7)
+    let b = a
+      .insertAfter(v => v === 1, 2)
+      .insertBefore(v => v === 5, 4)
+      .insertAfter(v => v === 5, 6)
+      .insertBefore(v => v === 3, 2.5)
+
+    expect(b.toArray()).toEqual([1, 2, 2.5, 3, 4, 5, 6, 7])
+    expect(b.remove(v => v === 2.5).remove(v => v === 6).toArray()).toEqual([1, 2, 3, 4, 5, 7])
+    expect(b.remove(v => v === 100)).toBe(b)
+    expect(a.toArray()).toEqual([1, 3, 5, 7])
+
+    expect(() => a.insertAfter(v => v === 100, 1)).toThrow()
+    expect(() => a.insertBefore(v => v === 100, 1)).toThrow()
+  })
+
+  test('.clear - Returns an empty list', () => {
+    let a = PersistentDLinkedList.fromArray([1, 2])
+    expect(a.clear().toArray()).toEqual([])
+    expect(a.toArray()).toEqual([1, 2])
+  })
+
+  test('.head, .tail - Reading the ends inside an iteratee leaves the iteration alone', () => {
+    let list = PersistentDLinkedList.fromArray([1, 2, 3, 4])
+    let seen = []
+    list.each((v, i, l) => {
+      seen.push(v)
+      l.tail()
+    })
+    expect(seen).toEqual([1, 2, 3, 4])
+    expect(list.map((v, i, l) => {
+      l.head()
+      return v
+    }).toArray()).toEqual([1, 2, 3, 4])
+
+    let appended = new PersistentDLinkedList<number>().append(1).append(2).append(3)
+    expect(appended.mapRight((v, i, l) => {
+      l.removeHead()
+      return v
+    }).toArray()).toEqual([3, 2, 1])
+    expect(appended.filter((v, i, l) => l.head() !== v).toArray()).toEqual([2, 3])
+  })
+
+  test('Values are cloned on the way in and out', () => {
+    let o = {a: {b: 1}}
+    let list = new PersistentDLinkedList<any>().append(o)
+    o.a.b = 2
+    let head = list.head()
+    head.a.b = 3
+    expect(list.head()).toEqual({a: {b: 1}})
+  })
+
+  test('Functional methods mirror DLinkedList', async () => {
+    let list = new PersistentDLinkedList<number>().prepend(2).prepend(1).append(3)
+    expect(list.map(v => v * 2).toArray()).toEqual([2, 4, 6])
+    expect(list.map().toArray()).toEqual([1, 2, 3])
+    expect(list.mapRight(v => v * 2).toArray()).toEqual([6, 4, 2])
+    expect(list.mapRight().toArray()).toEqual([3, 2, 1])
+    expect(list.filter(v => v > 1).toArray()).toEqual([2, 3])
+    expect(list.find(v => v === 3)).toEqual(3)
+    expect(list.find(v => v === 4)).toBeNull()
+    expect(list.reduce((acc, v) => acc + v, 0)).toEqual(6)
+    expect(list.reduceRight((acc, v) => acc * 10 + v, 0)).toEqual(321)
+    expect((await list.asyncMap(v => Promise.resolve(v * v))).toArray()).toEqual([1, 4, 9])
+    expect((await list.asyncMapRight(v => v * v)).toArray()).toEqual([9, 4, 1])
+    expect(await list.asyncReduce((acc, v) => Promise.resolve(acc + v), 0)).toEqual(6)
+    expect(await list.asyncReduceRight((acc, v) => Promise.resolve(acc * 10 + v), 0)).toEqual(321)
+    expect((await list.asyncFilter(v => Promise.resolve(v !== 2))).toArray()).toEqual([1, 3])
+    expect(await list.asyncFind(v => Promise.resolve(v > 1))).toEqual(2)
+    expect(await list.asyncFind(v => v > 3)).toBeNull()
+    expect(await list.asyncSome(v => Promise.resolve(v > 2))).toBe(true)
+    expect(await list.asyncEvery(v => Promise.resolve(v > 1))).toBe(false)
+    let asyncEachSeen = []
+    expect(await list.asyncEach(v => {
+      asyncEachSeen.push(v)
+    }, {concurrency: 1})).toBe(list)
+    expect(asyncEachSeen).toEqual([1, 2, 3])
+
+    let seen = []
+    list.each(v => seen.push(v)).eachRight(v => seen.push(v))
+    expect(seen).toEqual([1, 2, 3, 3, 2, 1])
+    expect([...list]).toEqual([1, 2, 3])
+    expect([...list.entries()]).toEqual([[0, 1], [1, 2], [2, 3]])
+
+    let asyncSeen = []
+    for await (let v of list) {
+      asyncSeen.push(v)
+    }
+    expect(asyncSeen).toEqual([1, 2, 3])
+  })
+
+  test('Converts to and from DLinkedList', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let persistent = PersistentDLinkedList.fromDLinkedList(dll)
+    dll.append(4)
+    expect(persistent.toArray()).toEqual([1, 2, 3])
+
+    let back = persistent.append(4).toDLinkedList()
+    expect(back).toBeInstanceOf(DLinkedList)
+    expect(back.toArray()).toEqual([1, 2, 3, 4])
+    expect(PersistentDLinkedList.from(new Set([1, 2])).toArray()).toEqual([1, 2])
+  })
+
+  test('cloner, freeze, proxy - Apply to every version and carry across conversions', () => {
+    let date = new Date(0)
+    let deep = PersistentDLinkedList.fromArray([date], {cloner: 'deep'}).append(new Date(1))
+    expect(deep.cloner).toEqual('deep')
+    expect(deep.head()).not.toBe(date)
+    expect(deep.head()).toEqual(date)
+    expect(deep.map(d => d).cloner).toEqual('deep')
+
+    let frozen = PersistentDLinkedList.from([{a: {b: 1}}], {freeze: true})
+    expect(Object.isFrozen(frozen.head().a)).toBe(true)
+    expect(frozen.head()).toBe(frozen.head())
+    expect(frozen.filter(() => true).freeze).toBe(true)
+
+    let dll = DLinkedList.fromArray([{a: 1}], {proxy: true, cloner: 'deep'})
+    let persistent = PersistentDLinkedList.fromDLinkedList(dll)
+    expect(persistent.proxy).toBe(true)
+    expect(persistent.cloner).toEqual('deep')
+    expect(() => (persistent.head() as any).a = 2).toThrow(ReadOnlyViewError)
+
+    let back = persistent.toDLinkedList({layout: 'unrolled'})
+    expect(back.proxy).toBe(true)
+    expect(back.cloner).toEqual('deep')
+    expect(back.layout).toEqual('unrolled')
+    expect(back.toArray()).toEqual([{a: 1}])
+    expect(() => new PersistentDLinkedList({freeze: true, proxy: true})).toThrow(TypeError)
+  })
+});
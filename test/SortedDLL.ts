@@ -0,0 +1,130 @@
+/**
+ * @file SortedDLL
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {SortedDLinkedList, DLinkedList, ForeignNodeError} from '../src/index'
+
+const consistent = (dll: DLinkedList<any>) => {
+  expect([...dll.valuesRight()].reverse()).toEqual(dll.toArray())
+  expect(dll.toArray().length).toEqual(dll.length)
+}
+
+describe('Sorted Double Linked List', () => {
+
+  test('.fromArray, .from - Sort the supplied values', () => {
+    let dll = SortedDLinkedList.fromArray([5, 1, 4, 2, 3])
+    expect(dll).toBeInstanceOf(SortedDLinkedList)
+    expect(dll).toBeInstanceOf(DLinkedList)
+    expect(dll.toArray()).toEqual([1, 2, 3, 4, 5])
+    consistent(dll)
+
+    let desc = SortedDLinkedList.from(new Set([1, 3, 2]), {comparator: (a, b) => b - a, freeze: true})
+    expect(desc.toArray()).toEqual([3, 2, 1])
+    expect(desc.freeze).toBe(true)
+  })
+
+  test('.append, .prepend, .insertAt - Keep comparator order', () => {
+    let dll = new SortedDLinkedList<number>()
+    dll.insertSorted(2).append(3).prepend(5).append(1).insertAt(0, 4)
+    expect(dll.toArray()).toEqual([1, 2, 3, 4, 5])
+    expect(dll.head()).toEqual(1)
+    expect(dll.tail()).toEqual(5)
+    expect(dll.length).toEqual(5)
+    consistent(dll)
+  })
+
+  test('.insertSorted - Places equal values after existing ones', () => {
+    let dll = new SortedDLinkedList<{k: number, id: string}>({comparator: (a, b) => a.k - b.k})
+    dll.append({k: 2, id: 'a'}).append({k: 1, id: 'b'}).append({k: 2, id: 'c'}).append({k: 1, id: 'd'})
+    expect(dll.toArray().map(v => v.id)).toEqual(['b', 'd', 'a', 'c'])
+    consistent(dll)
+  })
+
+  test('Node based inserts and replacements keep order', () => {
+    let dll = SortedDLinkedList.fromArray([10, 20, 30])
+    dll.insertAfterNode(dll.tailNode(), 15)
+    dll.insertBeforeNode(dll.headNode(), 25)
+    dll.insertAfter(v => v === 30, 5)
+    expect(dll.toArray()).toEqual([5, 10, 15, 20, 25, 30])
+
+    dll.replaceNode(dll.headNode(), 35)
+    dll.setAt(0, 0)
+    expect(dll.toArray()).toEqual([0, 15, 20, 25, 30, 35])
+    consistent(dll)
+
+    let other = DLinkedList.fromArray([1])
+    expect(() => dll.insertAfterNode(other.headNode(), 1)).toThrow(ForeignNodeError)
+    expect(() => dll.insertBeforeNode(other.headNode(), 1)).toThrow(ForeignNodeError)
+    expect(() => dll.insertAfterNode(null, 1)).toThrow()
+    expect(() => dll.insertBeforeNode(null, 1)).toThrow()
+  })
+
+  test('.setAt, .replaceNode - Notify once and undo in one step', () => {
+    let dll = SortedDLinkedList.fromArray([10, 20, 30], {history: true})
+    let notifications = []
+    dll.subscribe(records => notifications.push(records))
+
+    dll.setAt(0, 40)
+    dll.replaceNode(dll.headNode(), 5)
+    expect(dll.toArray()).toEqual([5, 30, 40])
+    expect(notifications.length).toEqual(2)
+    expect(notifications[0].map(r => r.kind)).toEqual(['remove', 'insert'])
+
+    dll.undo()
+    expect(dll.toArray()).toEqual([20, 30, 40])
+    dll.undo()
+    expect(dll.toArray()).toEqual([10, 20, 30])
+  })
+
+  test('.cursor - Inserts through a cursor keep order', () => {
+    let dll = SortedDLinkedList.fromArray([1, 5])
+    dll.cursor().insertAfter(9).insertBefore(3)
+    expect(dll.toArray()).toEqual([1, 3, 5, 9])
+  })
+
+  test('.lowerBound, .upperBound - Find boundaries of equal runs', () => {
+    let dll = SortedDLinkedList.fromArray([1, 2, 2, 3])
+    let lower = dll.lowerBound(2)
+    expect(lower.value).toEqual(2)
+    expect(lower.prev().value).toEqual(1)
+    expect(dll.upperBound(2).value).toEqual(3)
+    expect(dll.lowerBound(0).isHead).toBe(true)
+    expect(dll.lowerBound(4)).toBeNull()
+    expect(dll.upperBound(3)).toBeNull()
+  })
+
+  test('.range - Lazily iterates a half open range', () => {
+    let dll = SortedDLinkedList.fromArray([1, 2, 3, 4, 5])
+    expect([...dll.range(2, 4)]).toEqual([2, 3])
+    expect([...dll.range(0, 10)]).toEqual([1, 2, 3, 4, 5])
+    expect([...dll.range(6, 10)]).toEqual([])
+    expect([...dll.range(3, 3)]).toEqual([])
+  })
+
+  test('.sort, .sorted - Only the own comparator applies in place', () => {
+    let dll = SortedDLinkedList.fromArray([3, 1, 2])
+    expect(dll.sort()).toBe(dll)
+    expect(dll.sort(dll.comparator)).toBe(dll)
+    expect(() => dll.sort((a, b) => b - a)).toThrow(TypeError)
+
+    let desc = dll.sorted((a, b) => b - a)
+    expect(desc).not.toBeInstanceOf(SortedDLinkedList)
+    expect(desc.toArray()).toEqual([3, 2, 1])
+    expect(dll.toArray()).toEqual([1, 2, 3])
+  })
+
+  test('.absorb, .splice, .reverseInPlace - Keep or protect comparator order', () => {
+    let dll = SortedDLinkedList.fromArray([1, 4, 7])
+    dll.absorb(DLinkedList.fromArray([5, 2, 8]))
+    expect(dll.toArray()).toEqual([1, 2, 4, 5, 7, 8])
+    consistent(dll)
+
+    expect(dll.splice(1, 2, 6, 0).toArray()).toEqual([2, 4])
+    expect(dll.toArray()).toEqual([0, 1, 5, 6, 7, 8])
+    expect(() => dll.reverseInPlace()).toThrow(TypeError)
+    expect([...dll.reverse()]).toEqual([8, 7, 6, 5, 1, 0])
+  })
+});
@@ -0,0 +1,132 @@
+/**
+ * @file Streams
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Readable, Writable} from 'stream'
+import {DLinkedList, CapacityError, mapTransform, filterTransform} from '../src/index'
+
+const source = (values: any[]) => {
+  let i = 0
+  return new Readable({
+    objectMode: true,
+    read() {
+      this.push(i < values.length ? values[i++] : null)
+    }
+  })
+}
+
+const collect = (stream: Readable): Promise<any[]> => {
+  return new Promise((resolve, reject) => {
+    let out = []
+    stream.on('data', chunk => out.push(chunk))
+    stream.on('end', () => resolve(out))
+    stream.on('error', reject)
+  })
+}
+
+describe('Stream adapters', () => {
+
+  test('.toReadable - Emits cloned values in order or in reverse', async () => {
+    let o = {a: 1}
+    let dll = DLinkedList.fromArray([o, {a: 2}, {a: 3}])
+    let values = await collect(dll.toReadable())
+    expect(values).toEqual([{a: 1}, {a: 2}, {a: 3}])
+    values[0].a = 100
+    expect(dll.head()).toEqual({a: 1})
+
+    expect(await collect(dll.toReadable({reverse: true}))).toEqual([{a: 3}, {a: 2}, {a: 1}])
+    expect(await collect(new DLinkedList().toReadable())).toEqual([])
+  })
+
+  test('.toReadable - Respects backpressure', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5, 6])
+    let readable = dll.toReadable({highWaterMark: 2})
+    let pulled = 0
+    let received = []
+
+    await new Promise((resolve) => {
+      let slow = new Writable({
+        objectMode: true,
+        highWaterMark: 1,
+        write(chunk, encoding, callback) {
+          received.push(chunk)
+          pulled = Math.max(pulled, readable.readableLength)
+          setTimeout(callback, 2)
+        }
+      })
+      slow.on('finish', resolve)
+      readable.pipe(slow)
+    })
+
+    expect(received).toEqual([1, 2, 3, 4, 5, 6])
+    expect(pulled).toBeLessThanOrEqual(2)
+  })
+
+  test('.toReadable - Errors on null values', async () => {
+    let dll = DLinkedList.fromArray([1, null])
+    await expect(collect(dll.toReadable())).rejects.toThrow('Object mode streams cannot carry null values.')
+  })
+
+  test('.toReadable - Errors when the list changes while it is read', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5, 6])
+    let readable = dll.toReadable({highWaterMark: 2})
+    let collected = collect(readable)
+    readable.once('data', () => dll.append(7))
+    await expect(collected).rejects.toThrow('The list was modified during iteration.')
+
+    let snapshot = DLinkedList.fromArray([1, 2, 3, 4, 5, 6], {iteration: 'snapshot'})
+    readable = snapshot.toReadable({highWaterMark: 2})
+    collected = collect(readable)
+    readable.once('data', () => snapshot.append(7))
+    expect(await collected).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  test('.fromReadable - Resolves with a populated list', async () => {
+    let dll = await DLinkedList.fromReadable(source([1, 2, 3]), {cloner: 'deep'})
+    expect(dll.toArray()).toEqual([1, 2, 3])
+    expect(dll.cloner).toEqual('deep')
+
+    let failing = new Readable({
+      objectMode: true,
+      read() {
+        this.emit('error', new Error('boom'))
+      }
+    })
+    await expect(DLinkedList.fromReadable(failing)).rejects.toThrow('boom')
+  })
+
+  test('.fromReadable - Rejects and destroys the stream when the list refuses a chunk', async () => {
+    let stream = source([1, 2, 3, 4])
+    await expect(DLinkedList.fromReadable(stream, {capacity: 2, overflow: 'throw'})).rejects.toBeInstanceOf(CapacityError)
+    expect((stream as any).destroyed).toBe(true)
+    expect(stream.listenerCount('data')).toEqual(0)
+  })
+
+  test('.toWritable - Appends every chunk', async () => {
+    let dll = DLinkedList.fromArray([0])
+    let sink = dll.toWritable()
+    source([1, 2, 3]).pipe(sink)
+    let list = await sink.done()
+    expect(list).toBe(dll)
+    expect(dll.toArray()).toEqual([0, 1, 2, 3])
+  })
+
+  test('mapTransform, filterTransform - Apply iteratees in a pipeline', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4, 5])
+    let sink = new DLinkedList<number>().toWritable()
+    dll.toReadable()
+      .pipe(filterTransform((v: number) => Promise.resolve(v % 2 === 1)))
+      .pipe(mapTransform((v: number) => v * 10))
+      .pipe(sink)
+
+    expect((await sink.done()).toArray()).toEqual([10, 30, 50])
+
+    let failing = dll.toReadable().pipe(mapTransform(() => {
+      throw new Error('bad iteratee')
+    }))
+    await expect(collect(failing as any)).rejects.toThrow('bad iteratee')
+  })
+});
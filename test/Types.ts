@@ -0,0 +1,186 @@
+/**
+ * @file Types
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {Readable} from 'stream'
+import {
+  DLinkedList,
+  PersistentDLinkedList,
+  LazySeq,
+  DeepReadonly,
+  DeepReadonlyArray,
+  filterPredicate,
+  reduceIteratee,
+  mapTransform
+} from '../src/index'
+
+// Resolves to true only when A and B are the same type, assigning true to anything else fails to compile.
+type Exactly<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false
+
+interface Circle {
+  kind: 'circle'
+  radius: number
+}
+
+interface Square {
+  kind: 'square'
+  side: number
+}
+
+type Shape = Circle | Square
+
+const isCircle = (shape: Shape): shape is Circle => shape.kind === 'circle'
+
+const shapes = (): Shape[] => [{kind: 'circle', radius: 1}, {kind: 'square', side: 2}, {kind: 'circle', radius: 3}]
+
+describe('Iteratee signatures', () => {
+
+  test('Iteratees receive the value, its index and the list', () => {
+    let dll = DLinkedList.fromArray(['a', 'b', 'c'])
+    let calls = []
+    dll.each((value, index, list) => calls.push([value, index, list === dll]))
+    expect(calls).toEqual([['a', 0, true], ['b', 1, true], ['c', 2, true]])
+    expect(dll.map((value, index) => value + index).toArray()).toEqual(['a0', 'b1', 'c2'])
+    expect(dll.filter((value, index) => index !== 1).toArray()).toEqual(['a', 'c'])
+    expect(dll.find((value, index) => index === 2)).toEqual('c')
+    expect(dll.findNode((value, index) => index === 1).value).toEqual('b')
+    expect(dll.reduce((acc, value, index) => acc + index, 0)).toEqual(3)
+    expect(dll.flatMap((value, index) => [index]).toArray()).toEqual([0, 1, 2])
+    expect(dll.countBy((value, index) => index % 2).get(0)).toEqual(2)
+  })
+
+  test('Right handed iteratees receive the index of each value in the list', () => {
+    let dll = DLinkedList.fromArray(['a', 'b', 'c'])
+    let indexes = []
+    dll.eachRight((value, index) => indexes.push(index))
+    expect(indexes).toEqual([2, 1, 0])
+    expect(dll.mapRight((value, index) => value + index).toArray()).toEqual(['c2', 'b1', 'a0'])
+    expect(dll.reduceRight((acc, value, index) => acc + value + index, '')).toEqual('c2b1a0')
+  })
+
+  test('Async iteratees receive the value, its index and the list', async () => {
+    let dll = DLinkedList.fromArray([10, 20, 30])
+    expect((await dll.asyncMap((value, index) => value + index)).toArray()).toEqual([10, 21, 32])
+    expect((await dll.asyncMapRight((value, index) => value + index)).toArray()).toEqual([32, 21, 10])
+    expect((await dll.asyncFilter((value, index, list) => list.length - 1 === index)).toArray()).toEqual([30])
+    expect(await dll.asyncFind((value, index) => index === 1)).toEqual(20)
+    expect(await dll.asyncReduce(async (acc, value, index) => acc + index, 0)).toEqual(3)
+    expect(await dll.asyncReduceRight((acc, value, index) => acc.concat(index), [])).toEqual([2, 1, 0])
+  })
+
+  test('PersistentDLinkedList and LazySeq iteratees receive an index and their collection', () => {
+    let persistent = PersistentDLinkedList.fromArray(['a', 'b', 'c'])
+    let received = []
+    persistent.each((value, index, list) => received.push(list === persistent))
+    expect(received).toEqual([true, true, true])
+    expect(persistent.map((value, index) => value + index).toArray()).toEqual(['a0', 'b1', 'c2'])
+    expect(persistent.mapRight((value, index) => value + index).toArray()).toEqual(['c2', 'b1', 'a0'])
+    expect(persistent.remove((value, index) => index === 2).toArray()).toEqual(['a', 'b'])
+    expect(persistent.prepend('z').find((value, index) => index === 3)).toEqual('c')
+
+    let seq = DLinkedList.fromArray([5, 6, 7, 8]).lazy()
+    let stages = seq.filter((value, index, source) => source === seq && index % 2 === 0)
+    expect(stages.map((value, index) => value * 10 + index).toArray()).toEqual([50, 71])
+    expect(seq.takeWhile((value, index) => index < 2).toArray()).toEqual([5, 6])
+  })
+
+  test('Stream transforms receive each chunk and its index', (done) => {
+    let results = []
+    let source = new Readable({objectMode: true, read() {}})
+    source.pipe(mapTransform((chunk: string, index) => chunk + index))
+      .on('data', chunk => results.push(chunk))
+      .on('end', () => {
+        expect(results).toEqual(['a0', 'b1'])
+        done()
+      })
+    source.push('a')
+    source.push('b')
+    source.push(null)
+  })
+})
+
+describe('Type checks', () => {
+
+  test('Type guards narrow filter, find and partition', () => {
+    let dll = DLinkedList.fromArray(shapes())
+    let circles = dll.filter(isCircle)
+    let circle = dll.find(isCircle)
+    let [round, rest] = dll.partition(isCircle)
+    let narrowed: Exactly<typeof circles, DLinkedList<Circle>> = true
+    let found: Exactly<typeof circle, Circle> = true
+    let split: Exactly<typeof rest, DLinkedList<Square>> = true
+    let unguarded: Exactly<ReturnType<typeof dll.filter>, DLinkedList<Shape>> = true
+    expect(circles.map(c => c.radius).toArray()).toEqual([1, 3])
+    expect(circle.radius).toEqual(1)
+    expect(round.length).toEqual(2)
+    expect(rest.head().side).toEqual(2)
+
+    let persistent = PersistentDLinkedList.fromArray(shapes()).filter(isCircle)
+    let persistentNarrowed: Exactly<typeof persistent, PersistentDLinkedList<Circle>> = true
+    let lazy = LazySeq.of(shapes()).filter(isCircle)
+    let lazyNarrowed: Exactly<typeof lazy, LazySeq<Circle>> = true
+    expect([narrowed, found, split, unguarded, persistentNarrowed, lazyNarrowed].every(Boolean)).toBe(true)
+  })
+
+  test('reduce and asyncReduce infer the accumulator from the iteratee and initial value', async () => {
+    let dll = DLinkedList.fromArray([1, 2, 3])
+    let total = dll.reduce((acc, value) => acc + value, 0)
+    let joined = dll.reduceRight((acc, value) => acc + value, '')
+    let lengths = dll.reduce((acc, value) => acc.set(value, String(value).length), new Map<number, number>())
+    let pending = dll.asyncReduce(async (acc, value) => acc.concat([value]), [] as number[])
+    let summed = PersistentDLinkedList.fromArray([1, 2]).reduce((acc, value) => acc + value, 0)
+    let scanned = dll.lazy().scan((acc, value) => acc + value, '')
+
+    let totalType: Exactly<typeof total, number> = true
+    let joinedType: Exactly<typeof joined, string> = true
+    let lengthsType: Exactly<typeof lengths, Map<number, number>> = true
+    let pendingType: Exactly<typeof pending, Promise<number[]>> = true
+    let summedType: Exactly<typeof summed, number> = true
+    let scannedType: Exactly<typeof scanned, LazySeq<string>> = true
+    expect([totalType, joinedType, lengthsType, pendingType, summedType, scannedType].every(Boolean)).toBe(true)
+    expect(total).toEqual(6)
+    expect(joined).toEqual('321')
+    expect(lengths.get(3)).toEqual(1)
+    expect(await pending).toEqual([1, 2, 3])
+  })
+
+  test('zip and flatten infer their element types', () => {
+    let dll = DLinkedList.fromArray([1, 2])
+    let zipped = dll.zip(['a', 'b'])
+    let flat = DLinkedList.fromArray([[1, 2], [3]]).flatten()
+    let zippedType: Exactly<typeof zipped, DLinkedList<[number, string]>> = true
+    let flatType: Exactly<typeof flat, DLinkedList<number>> = true
+    expect([zippedType, flatType].every(Boolean)).toBe(true)
+    expect(zipped.toArray()).toEqual([[1, 'a'], [2, 'b']])
+    expect(flat.toArray()).toEqual([1, 2, 3])
+  })
+
+  test('Callbacks receive DeepReadonly values', () => {
+    interface Post {
+      title: string
+      tags: string[]
+      meta: {views: number}
+      seen: Set<string>
+      links: Map<string, {href: string}>
+      published: Date
+    }
+    let tags: Exactly<DeepReadonly<Post>['tags'], DeepReadonlyArray<string>> = true
+    let meta: Exactly<DeepReadonly<Post>['meta'], {readonly views: number}> = true
+    let date: Exactly<DeepReadonly<Post>['published'], Date> = true
+    let primitive: Exactly<DeepReadonly<number | string>, number | string> = true
+    let noPush: 'push' extends keyof DeepReadonly<string[]> ? false : true = true
+    let noAdd: 'add' extends keyof DeepReadonly<Post>['seen'] ? false : true = true
+    let noSet: 'set' extends keyof DeepReadonly<Post>['links'] ? false : true = true
+    let nested: Exactly<ReturnType<DeepReadonly<Post>['links']['get']>, {readonly href: string}> = true
+
+    let predicate: filterPredicate<Post> = (post) => post.tags.length > 0
+    let received: Exactly<Parameters<typeof predicate>[0], DeepReadonly<Post>> = true
+    let iteratee: reduceIteratee<number, Post> = (acc, post) => acc + post.meta.views
+    let accumulated: Exactly<Parameters<typeof iteratee>[1], DeepReadonly<Post>> = true
+
+    expect([tags, meta, date, primitive, noPush, noAdd, noSet, nested, received, accumulated].every(Boolean)).toBe(true)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * @file Unrolled
+ * @author Jim Bulkowski <jim.b@paperelectron.com>
+ * @project immutable-dll
+ * @license MIT {@link http://opensource.org/licenses/MIT}
+ */
+
+import {DLinkedList, KeyedDLinkedList, InvariantError, ForeignNodeError, DetachedNodeError} from '../src/index'
+
+// Reruns the DLL suite with every list unrolled into chunks small enough that most tests split and merge them.
+DLinkedList.defaultLayout = 'unrolled'
+DLinkedList.defaultChunkSize = 3
+require('./DLL')
+
+const range = (from: number, to: number): number[] => Array.from({length: to - from}, (v, i) => from + i)
+
+describe('Unrolled layout', () => {
+
+  test('Lists are unrolled when asked, or by default', () => {
+    let dll = new DLinkedList({layout: 'unrolled', chunkSize: 8})
+    expect(dll.layout).toEqual('unrolled')
+    expect(dll.chunkSize).toEqual(8)
+    expect(DLinkedList.fromArray([1]).layout).toEqual('unrolled')
+    expect(DLinkedList.fromArray([1]).chunkSize).toEqual(3)
+
+    let nodes = new DLinkedList({layout: 'nodes'})
+    expect(nodes.layout).toEqual('nodes')
+    expect(nodes.chunkSize).toBeNull()
+    expect(DLinkedList.fromArray([1, 2, 3], {layout: 'nodes'}).map(v => v * 2).layout).toEqual('nodes')
+    expect(DLinkedList.fromArray([1, 2, 3]).filter(v => v > 1).chunkSize).toEqual(3)
+    expect(dll.lazy().toList().chunkSize).toEqual(8)
+    expect(nodes.lazy().map(v => v).toList().layout).toEqual('nodes')
+  })
+
+  test('Unknown layouts and chunk sizes throw', () => {
+    expect(() => new DLinkedList({layout: 'tree' as any})).toThrow(TypeError)
+    expect(() => new DLinkedList({layout: 'tree' as any})).toThrow('Unknown layout "tree".')
+    expect(() => new DLinkedList({chunkSize: 0})).toThrow(RangeError)
+    expect(() => new DLinkedList({chunkSize: 2.5})).toThrow(RangeError)
+  })
+
+  test('Inserts and removes split and merge chunks', () => {
+    let dll = DLinkedList.fromArray(range(0, 20))
+    let expected = range(0, 20)
+    for (let i = 0; i < 20; i++) {
+      dll.insertAt(i * 2 % (dll.length + 1), 100 + i)
+      expected.splice(i * 2 % (expected.length + 1), 0, 100 + i)
+      dll.validate()
+    }
+    expect(dll.toArray()).toEqual(expected)
+
+    for (let i = 0; i < 30; i++) {
+      dll.removeAt(i * 7 % dll.length)
+      expected.splice(i * 7 % expected.length, 1)
+      dll.validate()
+    }
+    expect(dll.toArray()).toEqual(expected)
+    expect(dll.toArray().reverse()).toEqual(Array.from(dll.valuesRight()))
+  })
+
+  test('Nodes are created when asked for and keep their identity', () => {
+    let dll = DLinkedList.fromArray(['a', 'b', 'c', 'd', 'e'])
+    let node = dll.nodeAt(3)
+    expect(dll.nodeAt(3)).toBe(node)
+    dll.prepend('z')
+    dll.removeAt(1)
+    dll.insertAt(1, 'y')
+    expect(node.value).toEqual('d')
+    expect(dll.nodeAt(4)).toBe(node)
+    expect(node.next().value).toEqual('e')
+    expect(node.prev().value).toEqual('c')
+
+    dll.removeNode(node)
+    expect(node.next()).toBeNull()
+    expect(() => dll.removeNode(node)).toThrow(DetachedNodeError)
+    expect(dll.toArray()).toEqual(['z', 'y', 'b', 'c', 'e'])
+  })
+
+  test('Nodes follow their values when lists are absorbed and split', () => {
+    let dll = DLinkedList.fromArray(range(0, 7))
+    let other = DLinkedList.fromArray(range(7, 12))
+    let moved = other.nodeAt(1)
+    dll.absorb(other)
+    expect(other.length).toEqual(0)
+    expect(dll.nodeAt(8)).toBe(moved)
+    dll.validate()
+
+    let [, tail] = dll.splitAt(5)
+    expect(dll.toArray()).toEqual(range(0, 5))
+    expect(tail.toArray()).toEqual(range(5, 12))
+    expect(tail.nodeAt(3)).toBe(moved)
+    expect(() => dll.removeNode(moved)).toThrow(ForeignNodeError)
+    dll.validate()
+    tail.validate()
+
+    let middle = tail.splice(2, 3)
+    expect(middle.toArray()).toEqual([7, 8, 9])
+    expect(middle.nodeAt(1)).toBe(moved)
+    expect(tail.toArray()).toEqual([5, 6, 10, 11])
+    tail.validate()
+  })
+
+  test('.sort is stable and .reverseInPlace keeps nodes', () => {
+    let dll = DLinkedList.fromArray(range(0, 10).map(i => ({key: i % 3, i})))
+    let eighth = dll.nodeAt(8)
+    dll.sort((a, b) => a.key - b.key)
+    expect(dll.map(v => v.i).toArray()).toEqual([0, 3, 6, 9, 1, 4, 7, 2, 5, 8])
+    dll.reverseInPlace()
+    expect(dll.headNode()).toBe(eighth)
+    expect(dll.map(v => v.i).toArray()).toEqual([8, 5, 2, 7, 4, 1, 9, 6, 3, 0])
+    dll.validate()
+  })
+
+  test('Keyed lists track their nodes through chunks', () => {
+    let keyed = new KeyedDLinkedList<number, {id: number}>({key: value => value.id})
+    range(0, 10).forEach(id => keyed.append({id}))
+    keyed.removeByKey(4)
+    keyed.insertBeforeKey(2, {id: 20})
+    keyed.moveAfterKey(0, 9)
+    expect(keyed.map(v => v.id).toArray()).toEqual([1, 20, 2, 3, 5, 6, 7, 8, 9, 0])
+    expect(keyed.nodeByKey(20).next().value).toEqual({id: 2})
+    keyed.validate()
+  })
+
+  test('.validate - Describes broken chunks with an InvariantError', () => {
+    let dll = DLinkedList.fromArray([1, 2, 3, 4])
+    dll.length = 5
+    expect(() => dll.validate()).toThrow(InvariantError)
+    expect(() => dll.validate()).toThrow('4 values are stored in the chunks but the length is 5.')
+    expect(() => dll.head_node = null).toThrow(TypeError)
+  })
+})